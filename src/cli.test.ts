@@ -0,0 +1,125 @@
+import { describe, it, before, after } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const CLI = fileURLToPath(new URL('./cli.js', import.meta.url));
+
+/** Run the CLI and return its exit code and output */
+function run(args: string[], input?: string) {
+  const result = spawnSync(process.execPath, [CLI, ...args], { input, encoding: 'utf8' });
+  return { code: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe('json-thumb CLI', () => {
+  let dir: string;
+  let good: string;
+  let other: string;
+  let bad: string;
+  let log: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'json-thumb-'));
+    good = join(dir, 'good.json');
+    other = join(dir, 'other.json');
+    bad = join(dir, 'bad.json');
+    log = join(dir, 'events.ndjson');
+    writeFileSync(good, JSON.stringify({ a: [1, 2, { b: 'x' }], c: true }));
+    writeFileSync(other, '[1, 2, 3]');
+    writeFileSync(bad, '{"a": 1,}');
+    writeFileSync(log, '{"id": 1}\n{"id": 2,}\n{"id": 3, "ok": true}\n');
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads stdin when no file is given', () => {
+    const result = run([], '[{"id": 1}, {"id": 2}]');
+    assert.equal(result.code, 0);
+    assert.equal(result.stdout, 'Array(2) of {id: number}\n');
+  });
+
+  it('reads stdin for "-"', () => {
+    assert.equal(run(['-'], '"x"').stdout, 'string\n');
+  });
+
+  it('prints one thumbnail for a single file, without a header', () => {
+    const result = run([other]);
+    assert.equal(result.code, 0);
+    assert.equal(result.stdout, 'Array(3) of number\n');
+  });
+
+  it('prints a header per file for several files', () => {
+    const result = run([other, good]);
+    assert.equal(result.code, 0);
+    assert.equal(
+      result.stdout,
+      `==> ${other} <==\nArray(3) of number\n\n==> ${good} <==\n{a: Array(3) of number | {b: string}, c: boolean}\n`
+    );
+  });
+
+  it('passes options through', () => {
+    assert.equal(run(['--max-depth', '1', good]).stdout, '{a: Array(3) of ..., c: boolean}\n');
+    assert.equal(run(['-d', '0', good]).stdout, '{...}\n');
+    assert.equal(run(['--budget', '20', good]).stdout, '{...2 keys}\n');
+    assert.equal(run(['--budget', '5', '--tokens', good]).stdout, '{...2 keys}\n');
+    assert.equal(run(['--paths', other]).stdout, '.[]: number\n');
+    assert.equal(run(['--examples', '2', other]).stdout, 'Array(3) of number (1, 2, …)\n');
+    assert.equal(run([], '"2024-01-01"').stdout, 'string<date>\n');
+    assert.equal(run(['--no-formats'], '"2024-01-01"').stdout, 'string\n');
+    assert.equal(run(['--enums', '3'], '["a", "b", "a"]').stdout, 'Array(3) of "a" | "b"\n');
+    assert.equal(run(['--stats', other]).stdout, 'Array(3) of integer(1..3)\n');
+    assert.equal(run(['--frequencies'], '[1, "a", 2, 3]').stdout, 'Array(4) of number(75%) | string(25%)\n');
+    const ids = '{"1": 1, "2": 2, "3": 3, "4": 4, "5": 5}';
+    assert.equal(run([], ids).stdout, 'Map(5) of string<numeric> ("1", "2", "3", …) → number\n');
+    assert.match(run(['--no-maps'], ids).stdout, /^\{"1": number, "2": number,/);
+    assert.match(run(['--no-maps', '-w', '20'], ids).stdout, /^\{\n  "1": number,/);
+    assert.equal(run(['--definitions'], '{"a": {"x": 1, "y": 2}, "b": {"x": 3, "y": 4}}').stdout,
+      'A = {x: number, y: number}\n\n{a: A, b: A}\n');
+    const summary = JSON.stringify([{ id: 1 }, { id: 2 }, { id: 3 }, { total: 3 }]);
+    assert.equal(run(['-s', '2'], summary).stdout, 'Array(4) of {id: number}\n');
+    assert.equal(run(['-s', '2', '--sampling', 'first-last'], summary).stdout, 'Array(4) of {id?: number, total?: number}\n');
+    assert.equal(run(['-s', '2', '--sampling', 'random', '--seed', '3'], summary).stdout,
+      run(['-s', '2', '--sampling', 'random', '--seed', '3'], summary).stdout);
+  });
+
+  it('exits 1 with the position on invalid JSON, after thumbnailing the other files', () => {
+    const result = run([bad, other]);
+    assert.equal(result.code, 1);
+    assert.equal(result.stderr, `json-thumb: ${bad}: invalid JSON: Unexpected '}' at position 8\n`);
+    assert.ok(result.stdout.includes('Array(3) of number'), result.stdout);
+  });
+
+  it('reads .ndjson files and --lines input line by line, warning about malformed lines', () => {
+    const result = run([log]);
+    assert.equal(result.code, 0);
+    assert.equal(result.stdout, 'Lines(2) of {id: number, ok?: boolean}\n');
+    assert.match(result.stderr, /^json-thumb: .*events\.ndjson: line 2: invalid JSON: /);
+    assert.equal(run(['--lines'], '1\n"a"\n').stdout, 'Lines(2) of number | string\n');
+    assert.equal(run(['-l', '--paths'], '{"a": 1}\n').stdout, '.a: number\n');
+  });
+
+  it('exits 1 on a missing file', () => {
+    const result = run([join(dir, 'missing.json')]);
+    assert.equal(result.code, 1);
+    assert.match(result.stderr, /missing\.json: no such file/);
+  });
+
+  it('exits 2 with usage on bad options', () => {
+    const result = run(['--max-depth', 'deep']);
+    assert.equal(result.code, 2);
+    assert.match(result.stderr, /--max-depth expects a non-negative integer, got "deep"/);
+    assert.match(result.stderr, /Usage: json-thumb/);
+    assert.match(run(['--sampling', 'sometimes']).stderr, /--sampling expects one of even, first-last, head-tail, random/);
+  });
+
+  it('prints usage for --help', () => {
+    const result = run(['--help']);
+    assert.equal(result.code, 0);
+    assert.match(result.stdout, /Usage: json-thumb/);
+  });
+});
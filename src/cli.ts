@@ -0,0 +1,209 @@
+#!/usr/bin/env node
+// json-thumb command-line tool — print thumbnails of JSON files or stdin.
+//
+//   json-thumb data.json
+//   curl -s https://api.example.com/items | json-thumb --max-depth 3
+
+import { createReadStream } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  inferShapeFromLineStream,
+  inferShapeFromStream,
+  renderThumb,
+  type Sampling,
+  type ThumbOptions,
+} from "./index.js";
+
+const USAGE = `Usage: json-thumb [options] [file ...]
+
+Print a compact type-aware thumbnail of each JSON file.
+With no file, or when file is -, read standard input.
+Files ending in .ndjson or .jsonl are read as one JSON value per line.
+
+Options:
+  -s, --sample-size <n>   max array elements to sample (default: 100)
+      --sampling <how>    which elements to sample: even, first-last, head-tail
+                          or random (default: even)
+      --seed <n>          seed of --sampling random (default: 1)
+  -d, --max-depth <n>     max nesting depth before collapsing (default: 8)
+  -e, --examples <n>      show up to n distinct sample values per leaf (default: 0)
+      --no-formats        don't detect string formats (dates, UUIDs, URLs, ...)
+      --enums <n>         show fields with at most n distinct values as literals
+      --stats             show integer/number ranges and string lengths
+      --frequencies       show how often optional keys and union variants occur
+      --no-tagged-unions  don't split objects into unions by a discriminator key
+      --no-maps           don't treat objects keyed by IDs or dates as maps
+      --no-recursion      don't describe tree-shaped data as a recursive type
+  -b, --budget <n>        max output size; collapse subtrees to fit
+      --tokens            measure --budget in estimated tokens, not characters
+  -w, --width <n>         line width to lay the thumbnail out to (default: 80)
+      --definitions       describe repeated objects once, as named definitions
+  -p, --paths             list every leaf as a jq path with its type
+  -l, --lines             read input as NDJSON: one JSON value per line
+  -h, --help              show this help
+`;
+
+/** Files read as NDJSON even without --lines */
+const LINES_EXTENSION = /\.(ndjson|jsonl)$/i;
+
+/** Strategies --sampling accepts: the built-in ones */
+const SAMPLING_STRATEGIES: Sampling[] = ["even", "first-last", "head-tail", "random"];
+
+/** Thrown for bad command-line usage; reported with the usage text */
+class UsageError extends Error {}
+
+function parseCount(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new UsageError(`--${name} expects a non-negative integer, got "${value}"`);
+  }
+  return n;
+}
+
+function parseSampling(value: string | undefined): Sampling | undefined {
+  if (value === undefined) return undefined;
+  if (!SAMPLING_STRATEGIES.includes(value as Sampling)) {
+    throw new UsageError(`--sampling expects one of ${SAMPLING_STRATEGIES.join(", ")}, got "${value}"`);
+  }
+  return value as Sampling;
+}
+
+function parseOptions(argv: string[]): { files: string[]; options: ThumbOptions; lines: boolean; help: boolean } {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        "sample-size": { type: "string", short: "s" },
+        sampling: { type: "string" },
+        seed: { type: "string" },
+        "max-depth": { type: "string", short: "d" },
+        examples: { type: "string", short: "e" },
+        "no-formats": { type: "boolean" },
+        enums: { type: "string" },
+        stats: { type: "boolean" },
+        frequencies: { type: "boolean" },
+        "no-tagged-unions": { type: "boolean" },
+        "no-maps": { type: "boolean" },
+        "no-recursion": { type: "boolean" },
+        budget: { type: "string", short: "b" },
+        tokens: { type: "boolean" },
+        width: { type: "string", short: "w" },
+        definitions: { type: "boolean" },
+        paths: { type: "boolean", short: "p" },
+        lines: { type: "boolean", short: "l" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    throw new UsageError((err as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  const options: ThumbOptions = {
+    sampleSize: parseCount("sample-size", values["sample-size"]),
+    sampling: parseSampling(values.sampling),
+    seed: parseCount("seed", values.seed),
+    maxDepth: parseCount("max-depth", values["max-depth"]),
+    examples: parseCount("examples", values.examples),
+    formats: values["no-formats"] ? false : undefined,
+    enums: parseCount("enums", values.enums),
+    stats: values.stats,
+    frequencies: values.frequencies,
+    taggedUnions: values["no-tagged-unions"] ? false : undefined,
+    maps: values["no-maps"] ? false : undefined,
+    recursion: values["no-recursion"] ? false : undefined,
+    budget: parseCount("budget", values.budget),
+    budgetUnit: values.tokens ? "tokens" : undefined,
+    maxLineWidth: parseCount("width", values.width),
+    definitions: values.definitions,
+    mode: values.paths ? "paths" : undefined,
+  };
+  if (options.sampleSize === 0) {
+    throw new UsageError("--sample-size must be at least 1");
+  }
+
+  return {
+    files: positionals.length > 0 ? positionals : ["-"],
+    options,
+    lines: values.lines ?? false,
+    help: values.help ?? false,
+  };
+}
+
+/** Thumbnail one file; malformed NDJSON lines are passed to `warn` rather than failing */
+async function thumbFile(
+  file: string,
+  options: ThumbOptions,
+  lines: boolean,
+  warn: (message: string) => void
+): Promise<string> {
+  const source = file === "-" ? process.stdin : createReadStream(file);
+  if (!lines && !LINES_EXTENSION.test(file)) {
+    return renderThumb(await inferShapeFromStream(source, options), options);
+  }
+
+  const { shape, malformed, malformedCount } = await inferShapeFromLineStream(source, options);
+  for (const { line, message } of malformed) warn(`line ${line}: invalid JSON: ${message}`);
+  if (malformedCount > malformed.length) {
+    warn(`${malformedCount - malformed.length} more invalid lines`);
+  }
+  return renderThumb(shape, options);
+}
+
+function describeError(err: unknown): string {
+  if (err instanceof SyntaxError) return `invalid JSON: ${err.message}`;
+  const code = (err as NodeJS.ErrnoException).code;
+  if (code === "ENOENT") return "no such file";
+  if (code === "EISDIR") return "is a directory";
+  return (err as Error).message;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let files: string[];
+  let options: ThumbOptions;
+  let lines: boolean;
+  try {
+    const parsed = parseOptions(argv);
+    if (parsed.help) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    ({ files, options, lines } = parsed);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    process.stderr.write(`json-thumb: ${err.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  // One header per file when there are several, like head(1)
+  const withHeaders = files.length > 1;
+  let failed = false;
+
+  for (const [i, file] of files.entries()) {
+    const name = file === "-" ? "<stdin>" : file;
+    try {
+      const warn = (message: string) => process.stderr.write(`json-thumb: ${name}: ${message}\n`);
+      const out = await thumbFile(file, options, lines, warn);
+      if (withHeaders) process.stdout.write(`${i > 0 ? "\n" : ""}==> ${name} <==\n`);
+      process.stdout.write(`${out}\n`);
+    } catch (err) {
+      failed = true;
+      process.stderr.write(`json-thumb: ${name}: ${describeError(err)}\n`);
+    }
+  }
+
+  return failed ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  err => {
+    process.stderr.write(`json-thumb: ${(err as Error).stack ?? err}\n`);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,176 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import ts from 'typescript';
+import { inferShape, toTypeScript } from './index.js';
+
+/** Type-check generated declarations under strict; returns the error messages */
+function typeErrors(code: string): string[] {
+  const file = 'generated.ts';
+  const options: ts.CompilerOptions = { strict: true, noEmit: true, target: ts.ScriptTarget.ES2022, types: [] };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (name, version, ...rest) =>
+    name === file ? ts.createSourceFile(name, code, version) : getSourceFile(name, version, ...rest);
+  const program = ts.createProgram([file], options, host);
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+describe('toTypeScript', () => {
+  it('root object → interface, nested objects hoisted and named after their key', () => {
+    const data = { id: 1, owner: { login: 'x', site_admin: false }, created_at: '2024-01-01' };
+    assert.equal(
+      toTypeScript(inferShape(data), { rootName: 'Repo' }),
+      [
+        'export interface Repo {',
+        '  id: number;',
+        '  owner: Owner;',
+        '  created_at: string;',
+        '}',
+        '',
+        'export interface Owner {',
+        '  login: string;',
+        '  site_admin: boolean;',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('array elements get singular names, optional keys get ?:', () => {
+    const data = { results: [{ id: 1, tags: ['a'] }, { id: 2, category_info: { name: 'x' } }] };
+    assert.equal(
+      toTypeScript(inferShape(data)),
+      [
+        'export interface Root {',
+        '  results: Result[];',
+        '}',
+        '',
+        'export interface Result {',
+        '  id: number;',
+        '  tags?: string[];',
+        '  category_info?: CategoryInfo;',
+        '}',
+        '',
+        'export interface CategoryInfo {',
+        '  name: string;',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('other roots → type aliases, unions parenthesized in arrays', () => {
+    assert.equal(toTypeScript(inferShape([1, 'a', null])), 'export type Root = (number | string | null)[];');
+    assert.equal(toTypeScript(inferShape('x'), { rootName: 'Name' }), 'export type Name = string;');
+    assert.equal(toTypeScript(inferShape({})), 'export type Root = Record<string, never>;');
+    assert.equal(toTypeScript(inferShape([])), 'export type Root = unknown[];');
+  });
+
+  it('tagged unions → one interface per tag, with the tag as a literal type', () => {
+    const events = [
+      { type: 'click', x: 1 },
+      { type: 'page_view', page: 'a' },
+      { type: 'click', x: 2 },
+    ];
+    assert.equal(
+      toTypeScript(inferShape({ events })),
+      [
+        'export interface Root {',
+        '  events: (EventClick | EventPageView)[];',
+        '}',
+        '',
+        'export interface EventClick {',
+        '  type: "click";',
+        '  x: number;',
+        '}',
+        '',
+        'export interface EventPageView {',
+        '  type: "page_view";',
+        '  page: string;',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('maps → Record, enums → literal unions', () => {
+    const users: Record<string, unknown> = {};
+    for (let i = 0; i < 5; i++) users[`u${i}`] = { status: i % 2 ? 'active' : 'banned' };
+    assert.equal(
+      toTypeScript(inferShape({ users }, { enums: 3 })),
+      [
+        'export interface Root {',
+        '  users: Record<string, User>;',
+        '}',
+        '',
+        'export interface User {',
+        '  status: "banned" | "active";',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('quotes keys that are not identifiers, and avoids clashing names', () => {
+    const data = { 'content-type': 'x', a: { item: { v: 1 } }, b: { item: { w: 2 } }, record: { r: 1 } };
+    const code = toTypeScript(inferShape(data));
+    assert.ok(code.includes('  "content-type": string;'), code);
+    assert.ok(code.includes('export interface Item {\n  v: number;\n}'), code);
+    assert.ok(code.includes('export interface Item2 {\n  w: number;\n}'), code);
+    assert.ok(code.includes('  record: Record2;'), code);
+  });
+
+  it('collapsed containers become unknown at maxDepth', () => {
+    const shape = inferShape({ a: { b: 1 }, l: [1] }, { maxDepth: 1 });
+    assert.equal(
+      toTypeScript(shape, { maxDepth: 1 }),
+      'export interface Root {\n  a: Record<string, unknown>;\n  l: unknown[];\n}'
+    );
+  });
+
+  it('JavaScript values keep their types, circular references become unknown', () => {
+    const node: Record<string, unknown> = {
+      at: new Date(0),
+      ids: new Set([1n]),
+      byId: new Map([[1, 'a']]),
+      bytes: new Uint8Array(2),
+      run: () => {},
+    };
+    node.self = node;
+    const code = toTypeScript(inferShape(node, { jsTypes: true }));
+    assert.equal(
+      code,
+      'export interface Root {\n  at: Date;\n  ids: Set<bigint>;\n  byId: Map<number, string>;\n  bytes: Uint8Array;\n  run: Function;\n  self: unknown;\n}'
+    );
+    assert.deepEqual(typeErrors(code), [], code);
+  });
+
+  it('recursive objects become interfaces that refer to themselves', () => {
+    const post = { title: 't', comments: [{ text: 'x', replies: [{ text: 'y', replies: [] }] }] };
+    const code = toTypeScript(inferShape(post));
+    assert.equal(
+      code,
+      'export interface Root {\n  title: string;\n  comments: Comment[];\n}\n\n' +
+        'export interface Comment {\n  text: string;\n  replies: Comment[];\n}'
+    );
+    assert.deepEqual(typeErrors(code), [], code);
+  });
+
+  it('output compiles under strict', () => {
+    const users: Record<string, unknown> = {};
+    for (let i = 0; i < 5; i++) users[`u${i}`] = { name: 'x', roles: ['a'] };
+    const data = {
+      'content-type': 'json',
+      users,
+      record: { map: { date: 1 } },
+      events: [
+        { type: 'click', x: 1, meta: { at: 'now' } },
+        { type: 'view', page: 'a', meta: { at: 'then', ref: null } },
+        { type: 'click', x: 2, meta: { at: 'later' } },
+      ],
+      matrix: [[1, 'a'], [null]],
+      empty: {},
+      '2024': { v: true },
+    };
+    const code = toTypeScript(inferShape(data, { enums: 2 }), { rootName: 'Dump' });
+    assert.deepEqual(typeErrors(code), [], code);
+  });
+});
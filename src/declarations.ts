@@ -0,0 +1,236 @@
+// TypeScript declarations — turn an inferred Shape into interfaces.
+//
+//   export interface Root {
+//     results: Result[];
+//     total: number;
+//   }
+//
+//   export interface Result {
+//     id: number;
+//     tags?: string[];
+//   }
+
+import type { ObjectShape, ScalarShape, Shape } from "./index.js";
+import { DEFAULT_MAX_DEPTH, isEmptyArray, isEmptyMap, isEnumScalar, tagOf } from "./shapes.js";
+
+// ─── Type Definitions ────────────────────────────────────────────────────────
+
+export interface TypeScriptOptions {
+  /** Name of the root declaration (default: "Root") */
+  rootName?: string;
+  /** Depth at which the shape was collapsed; containers there become `unknown` (default: 8) */
+  maxDepth?: number;
+}
+
+/**
+ * Interfaces waiting to be written, and the names already taken. `scope` is
+ * the interface the `self` shapes being written refer to: the nearest
+ * enclosing recursive object.
+ */
+interface EmitState {
+  maxDepth: number;
+  used: Set<string>;
+  queue: Array<{ name: string; shape: ObjectShape; depth: number; scope?: string }>;
+  scope?: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_ROOT_NAME = "Root";
+
+/** Property names that can be written unquoted */
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/** Global types an interface must not shadow: the output uses some, readers expect the rest */
+const RESERVED_NAMES = new Set([
+  "Array",
+  "Record",
+  "Object",
+  "String",
+  "Number",
+  "Boolean",
+  "Symbol",
+  "Function",
+  "Date",
+  "Map",
+  "Set",
+  "Promise",
+  "Error",
+]);
+
+// ─── Declarations ────────────────────────────────────────────────────────────
+
+/**
+ * Generate TypeScript declarations describing a shape.
+ *
+ * - The root object becomes `export interface <rootName>`; any other root
+ *   becomes `export type <rootName> = ...`
+ * - Nested objects are hoisted into interfaces named after their key, in
+ *   PascalCase — singular for array elements (`results` → `Result`); clashing
+ *   names get a numeric suffix
+ * - Optional keys become `key?:`, unions become `A | B`, maps become
+ *   `Record<string, V>`, tags and enums become literal types
+ * - Values described with the `jsTypes` option keep their types — `Date`,
+ *   `bigint`, `Set<T>`, `Map<K, V>`, `Uint8Array` — and circular references
+ *   become `unknown`
+ * - Recursive objects become an interface that refers to itself:
+ *   `interface Node { children: Node[]; }`
+ *
+ * The output compiles under `strict`.
+ *
+ * @param shape - Shape from `inferShape` / `inferShapeFromStream`
+ * @param options - rootName (default "Root"), maxDepth (default 8)
+ * @returns Declarations separated by blank lines, root first
+ *
+ * @example
+ * ```ts
+ * toTypeScript(inferShape({id: 1, owner: {login: "x"}}), { rootName: "Repo" })
+ * // → 'export interface Repo {\n  id: number;\n  owner: Owner;\n}\n\n' +
+ * //   'export interface Owner {\n  login: string;\n}'
+ * ```
+ */
+export function toTypeScript(shape: Shape, options?: TypeScriptOptions): string {
+  const rootName = options?.rootName ?? DEFAULT_ROOT_NAME;
+  const state: EmitState = {
+    maxDepth: options?.maxDepth ?? DEFAULT_MAX_DEPTH,
+    used: new Set([rootName]),
+    queue: [],
+  };
+
+  const blocks: string[] = [];
+  if (shape.kind === "object" && Object.keys(shape.keys).length > 0 && state.maxDepth > 0) {
+    state.queue.push({ name: rootName, shape, depth: 0 });
+  } else {
+    blocks.push(`export type ${rootName} = ${typeExpression(shape, rootName, state, 0)};`);
+  }
+
+  // Writing an interface queues the interfaces of its nested objects
+  for (let next = state.queue.shift(); next; next = state.queue.shift()) {
+    state.scope = next.shape.recursive ? next.name : next.scope;
+    blocks.push(renderInterface(next.name, next.shape, state, next.depth));
+  }
+  return blocks.join("\n\n");
+}
+
+function renderInterface(name: string, shape: ObjectShape, state: EmitState, depth: number): string {
+  const lines = Object.entries(shape.keys).map(([key, field]) => {
+    const prop = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+    const type = typeExpression(field.shape, nameForKey(key, name), state, depth + 1);
+    return `  ${prop}${field.optional ? "?" : ""}: ${type};`;
+  });
+  return `export interface ${name} {\n${lines.join("\n")}\n}`;
+}
+
+/**
+ * The type of a shape, as written in a declaration. Objects are queued as
+ * interfaces named after `hint` and referred to by name.
+ */
+function typeExpression(shape: Shape, hint: string, state: EmitState, depth: number): string {
+  switch (shape.kind) {
+    case "scalar":
+      return scalarType(shape);
+
+    case "array": {
+      // Typed arrays are their own type; a Set is generic like an array
+      if (shape.className && shape.className !== "Set") return shape.className;
+      const empty = isEmptyArray(shape) || depth >= state.maxDepth;
+      const element = empty ? "unknown" : typeExpression(shape.children, elementName(hint), state, depth + 1);
+      if (shape.className === "Set") return `Set<${element}>`;
+      return isUnion(element) ? `(${element})[]` : `${element}[]`;
+    }
+
+    case "object": {
+      if (depth >= state.maxDepth) return "Record<string, unknown>";
+      if (Object.keys(shape.keys).length === 0) return "Record<string, never>";
+      const name = uniqueName(hint, state);
+      state.queue.push({ name, shape, depth, scope: state.scope });
+      return name;
+    }
+
+    case "map": {
+      const js = shape.className === "Map";
+      if (isEmptyMap(shape) || depth >= state.maxDepth) return js ? "Map<unknown, unknown>" : "Record<string, unknown>";
+      const values = typeExpression(shape.values, elementName(hint), state, depth + 1);
+      if (!js) return `Record<string, ${values}>`;
+      return `Map<${typeExpression(shape.keys, `${hint}Key`, state, depth + 1)}, ${values}>`;
+    }
+
+    case "varied": {
+      const { discriminator } = shape;
+      const types = shape.variants.map(v => {
+        // Tagged variants are named after their tag: EventClick, EventPurchase
+        const tag = discriminator && v.kind === "object" ? tagOf(v, discriminator) : undefined;
+        return typeExpression(v, tag ? hint + pascalCase(tag) : hint, state, depth);
+      });
+      return [...new Set(types)].join(" | ");
+    }
+
+    case "circular":
+      return "unknown";
+
+    case "self":
+      // The interface of the enclosing recursive object refers to itself
+      return state.scope ?? "unknown";
+
+    case "truncated":
+      // Cut at maxDepth: an object (or JavaScript Map) whose keys weren't looked at, or array elements
+      if (shape.cut === "elements") return "unknown";
+      return shape.className === "Map" ? "Map<unknown, unknown>" : "Record<string, unknown>";
+  }
+}
+
+/** `string`, or literal types for a tag or a closed set of values; functions are `Function` */
+function scalarType(shape: ScalarShape): string {
+  if (shape.type === "function") return "Function";
+  if (shape.literal !== undefined) return JSON.stringify(shape.literal);
+  if (isEnumScalar(shape)) return shape.values!.map(v => JSON.stringify(v)).join(" | ");
+  return shape.type;
+}
+
+/** Does this type expression have a `|` outside any brackets? */
+function isUnion(type: string): boolean {
+  let nesting = 0;
+  for (const c of type) {
+    if (c === "<" || c === "(" || c === "{") nesting++;
+    else if (c === ">" || c === ")" || c === "}") nesting--;
+    else if (c === "|" && nesting === 0) return true;
+  }
+  return false;
+}
+
+// ─── Naming ──────────────────────────────────────────────────────────────────
+
+/** `created_at` → `CreatedAt`, `userID` → `UserID` */
+function pascalCase(text: string): string {
+  return text
+    .split(/[^A-Za-z0-9]+|(?<=[a-z0-9])(?=[A-Z])/)
+    .filter(word => word.length > 0)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join("");
+}
+
+/** Interface name for an object under `key`; keys that make no name borrow the parent's */
+function nameForKey(key: string, parent: string): string {
+  const name = pascalCase(key);
+  if (name === "" || /^\d/.test(name)) return parent + name;
+  return name;
+}
+
+/** Name for the elements of a collection: `Results` → `Result`, `Data` → `DataItem` */
+function elementName(name: string): string {
+  let singular = name;
+  if (/ies$/.test(name)) singular = name.slice(0, -3) + "y";
+  else if (/(x|ch|sh|ss|us)es$/.test(name)) singular = name.slice(0, -2);
+  else if (/[^su]s$/.test(name)) singular = name.slice(0, -1);
+  return singular === name ? `${name}Item` : singular;
+}
+
+/** `name`, or `name2`, `name3`... if taken */
+function uniqueName(name: string, state: EmitState): string {
+  let candidate = name;
+  for (let n = 2; state.used.has(candidate) || RESERVED_NAMES.has(candidate); n++) {
+    candidate = `${name}${n}`;
+  }
+  state.used.add(candidate);
+  return candidate;
+}
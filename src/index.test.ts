@@ -1,6 +1,19 @@
 import { describe, it } from 'node:test';
 import { strict as assert } from 'node:assert';
-import { thumb, inferShape } from './index.js';
+import {
+  thumb,
+  inferShape,
+  inferShapeFromStream,
+  checkShape,
+  diffShapes,
+  renderShapeDiff,
+  ShapeAccumulator,
+  inferShapeFromLines,
+  inferShapeFromLineStream,
+  renderThumb,
+  jqPaths,
+  parseThumb,
+} from './index.js';
 
 // =============================================================================
 // 1. Scalar Values
@@ -399,7 +412,7 @@ describe('Complex Real-World Shapes', () => {
     assert.ok(result.includes('_source:'), `Missing "_source:" in: ${result}`);
 
     // Nested _source fields
-    assert.ok(result.includes('@timestamp: string'), `Missing "@timestamp: string" in: ${result}`);
+    assert.ok(result.includes('"@timestamp": string'), `Missing "\"@timestamp\": string" in: ${result}`);
     assert.ok(result.includes('message: string'), `Missing "message: string" in: ${result}`);
     assert.ok(result.includes('level: string'), `Missing "level: string" in: ${result}`);
 
@@ -474,6 +487,48 @@ describe('Depth Limiting', () => {
       `Expected collapse at depth 0 in: ${result}`
     );
   });
+
+  it('marks what was cut at maxDepth with a truncated shape', () => {
+    const shape = inferShape({ a: { b: 1, c: 2 }, e: {}, l: [[1, 2]] }, { maxDepth: 1 });
+    assert.deepEqual(shape, {
+      kind: 'object',
+      keys: {
+        a: { shape: { kind: 'truncated', cut: 'keys', size: 2 }, optional: false },
+        e: { shape: { kind: 'object', keys: {} }, optional: false },
+        l: {
+          shape: { kind: 'array', length: 1, children: { kind: 'truncated', cut: 'elements', size: 1 } },
+          optional: false,
+        },
+      },
+    });
+    assert.equal(renderThumb(shape), '{a: {...}, e: {}, l: Array(1) of ...}');
+  });
+
+  it('merges truncated shapes into a size range, apart from genuinely empty values', () => {
+    const shape = inferShape([{ a: { x: 1 } }, { a: { x: 1, y: 2, z: 3 } }, { a: null }, { a: [] }], { maxDepth: 2 });
+    assert.deepEqual(shape.kind === 'array' && shape.children.kind === 'object' && shape.children.keys.a.shape, {
+      kind: 'varied',
+      variants: [
+        { kind: 'truncated', cut: 'keys', size: -1, minSize: 1, maxSize: 3 },
+        { kind: 'scalar', type: 'null' },
+        { kind: 'array', length: 0, children: { kind: 'scalar', type: 'null' } },
+      ],
+    });
+    assert.equal(thumb({ a: {} }, { maxDepth: 2 }), '{a: {}}');
+  });
+
+  it('keeps an empty object at maxDepth empty, and merges it with objects cut there', () => {
+    assert.equal(thumb({ a: {}, b: { c: 1 } }, { maxDepth: 1 }), '{a: {}, b: {...}}');
+    const shape = inferShape([{ a: {} }, { a: { x: 1, y: 2 } }, { a: 'none' }], { maxDepth: 2 });
+    assert.deepEqual(shape.kind === 'array' && shape.children.kind === 'object' && shape.children.keys.a.shape, {
+      kind: 'varied',
+      variants: [
+        { kind: 'truncated', cut: 'keys', size: -1, minSize: 0, maxSize: 2 },
+        { kind: 'scalar', type: 'string' },
+      ],
+    });
+    assert.equal(thumb([{ a: { x: 1 } }, { a: {} }], { maxDepth: 2 }), 'Array(2) of {a: {...}}');
+  });
 });
 
 // =============================================================================
@@ -512,6 +567,60 @@ describe('Sampling', () => {
     const result = thumb(data, { sampleSize: 50 });
     assert.ok(result.includes('Array(50000)'), `Expected "Array(50000)" in: ${result}`);
   });
+
+  // 1000 records and a trailing summary record
+  const withSummary = [...Array.from({ length: 1000 }, (_, i) => ({ id: i })), { total: 1000 }];
+  const numbers = Array.from({ length: 1000 }, (_, i) => i);
+
+  it('"even" (the default) can miss a trailing record', () => {
+    assert.equal(thumb(withSummary, { sampleSize: 10 }), 'Array(1001) of {id: number}');
+    assert.equal(thumb(numbers, { sampleSize: 10, stats: true }), 'Array(1000) of integer(0..900)');
+  });
+
+  it('"first-last" and "head-tail" always sample both ends', () => {
+    for (const sampling of ['first-last', 'head-tail'] as const) {
+      assert.equal(thumb(withSummary, { sampleSize: 10, sampling }), 'Array(1001) of {id?: number, total?: number}');
+      assert.equal(thumb(numbers, { sampleSize: 10, sampling, stats: true }), 'Array(1000) of integer(0..999)');
+    }
+    // head-tail: the first and last 4, and 2 in between
+    const shape = inferShape(numbers, { sampleSize: 10, sampling: 'head-tail', examples: 10 });
+    assert.deepEqual(shape.kind === 'array' && shape.children.kind === 'scalar' && shape.children.examples,
+      [0, 1, 2, 3, 4, 500, 996, 997, 998, 999]);
+  });
+
+  it('"random" picks the same elements for the same seed', () => {
+    const picks = (seed?: number) => {
+      const shape = inferShape(numbers, { sampleSize: 5, sampling: 'random', seed, examples: 5 });
+      return shape.kind === 'array' && shape.children.kind === 'scalar' ? shape.children.examples : undefined;
+    };
+    assert.deepEqual(picks(), picks(1));
+    assert.deepEqual(picks(7), picks(7));
+    assert.notDeepEqual(picks(1), picks(7));
+    assert.equal(picks()!.length, 5);
+  });
+
+  it('takes a function picking the indices', () => {
+    const last = (length: number) => [length - 1, length - 1];
+    assert.equal(thumb(withSummary, { sampleSize: 10, sampling: last }), 'Array(1001) of {total: number}');
+    // Arrays that fit the sample are sampled completely without asking
+    assert.equal(thumb([1, 'a'], { sampling: last }), 'Array(2) of number | string');
+    assert.throws(() => thumb(numbers, { sampleSize: 5, sampling: () => [1000] }), RangeError);
+    assert.throws(() => thumb(numbers, { sampleSize: 5, sampling: () => [] }), RangeError);
+  });
+
+  it('streams every built-in strategy, sampling short arrays completely', async () => {
+    const text = JSON.stringify({ withSummary, short: [1, 'a', null] });
+    for (const sampling of ['even', 'first-last', 'head-tail', 'random'] as const) {
+      const shape = await inferShapeFromStream([text], { sampleSize: 10, sampling });
+      assert.equal(shape.kind === 'object' && renderThumb(shape.keys.short.shape), 'Array(3) of number | string | null');
+      if (sampling === 'first-last' || sampling === 'head-tail') {
+        assert.equal(renderThumb(shape), thumb({ withSummary, short: [1, 'a', null] }, { sampleSize: 10, sampling }));
+      }
+    }
+    const random = () => inferShapeFromStream([JSON.stringify(numbers)], { sampleSize: 5, sampling: 'random', stats: true });
+    assert.deepEqual(await random(), await random());
+    await assert.rejects(inferShapeFromStream(['[1]'], { sampling: () => [0] }), TypeError);
+  });
 });
 
 // =============================================================================
@@ -552,7 +661,8 @@ describe('Edge Cases', () => {
     for (let i = 0; i < 25; i++) {
       obj[`key${i}`] = i;
     }
-    const result = thumb(obj);
+    // key0..key24 look generated, so by default this would be a map
+    const result = thumb(obj, { maps: false });
     // All 25 keys should be present
     for (let i = 0; i < 25; i++) {
       assert.ok(
@@ -579,6 +689,15 @@ describe('Edge Cases', () => {
     assert.ok(result.includes('c: {}'), `Missing "c: {}" in: ${result}`);
   });
 
+  it('quotes keys jq cannot read as .key', () => {
+    assert.equal(
+      thumb({ 'content-type': 'x', '2024': 1, '': true, 'a b': null, 'line\nbreak': 1, ok_1: 1 }),
+      '{\n  "2024": number,\n  "content-type": string,\n  "": boolean,\n  "a b": null,\n  "line\\nbreak": number,\n  ok_1: number\n}'
+    );
+    assert.equal(thumb({ [`${'k'.repeat(70)}`]: 1 }), `{"${'k'.repeat(63)}…": number}`);
+    assert.equal(thumb({ if: 1, reduce: 'x', not: true, then_: 1 }), '{"if": number, "reduce": string, "not": boolean, then_: number}');
+  });
+
   it('array of mixed empty and non-empty objects → optional fields', () => {
     const result = thumb([{ a: 1 }, {}]);
     // "a" should be optional since it's missing from the second object
@@ -842,6 +961,1175 @@ describe('inferShape API', () => {
   });
 });
 
+// =============================================================================
+// 17. Budget
+// =============================================================================
+describe('Budget', () => {
+  const wide = Object.fromEntries(
+    Array.from({ length: 10 }, (_, i) => [
+      `field${i}`,
+      { a: 1, b: 'x', c: { d: [1, 2], e: { f: true, g: null, h: 'x', i: 2 } } },
+    ])
+  );
+  const data = {
+    results: Array.from({ length: 50 }, (_, i) => ({ id: i, ...wide })),
+    meta: { x: 1, y: [1, 'a', true, null] },
+  };
+
+  it('output that already fits is unchanged', () => {
+    assert.equal(thumb(data, { budget: 100000 }), thumb(data));
+  });
+
+  it('collapses until the output fits the character budget', () => {
+    for (const budget of [1500, 800, 300, 120]) {
+      const result = thumb(data, { budget });
+      assert.ok(result.length <= budget, `${result.length} > ${budget}: ${result}`);
+    }
+  });
+
+  it('collapses the deepest objects first, with key counts', () => {
+    const result = thumb(data, { budget: 1000 });
+    assert.ok(result.includes('e: {...4 keys}'), `Expected "e: {...4 keys}" in: ${result}`);
+    assert.ok(result.includes('results: Array(50) of {'), `Expected top level kept in: ${result}`);
+  });
+
+  it('cuts long key lists with a count of hidden keys', () => {
+    const result = thumb(data, { budget: 300 });
+    assert.ok(result.includes('...5 more keys'), `Expected "...5 more keys" in: ${result}`);
+  });
+
+  it('cuts long unions with a count of hidden variants', () => {
+    const result = thumb(data, { budget: 120 });
+    assert.ok(result.includes('number | string | ...2 more'), `Expected cut union in: ${result}`);
+    assert.ok(result.includes('Array(50) of {...11 keys}'), `Expected collapsed results in: ${result}`);
+  });
+
+  it('budgetUnit "tokens" estimates ~4 characters per token', () => {
+    assert.equal(thumb(data, { budget: 30, budgetUnit: 'tokens' }), thumb(data, { budget: 120 }));
+  });
+
+  it('returns the most collapsed rendering when nothing fits', () => {
+    assert.equal(thumb(data, { budget: 1 }), '{...2 keys}');
+  });
+
+  it('fits thousands of objects without rendering once per collapse step', () => {
+    const groups: Record<string, Record<string, unknown>> = {};
+    for (let i = 0; i < 30; i++) {
+      groups[`group${i}`] = Object.fromEntries(Array.from({ length: 70 }, (_, j) => [`key${j}`, { id: j, name: 'x' }]));
+    }
+    const start = Date.now();
+    const result = thumb(groups, { maps: false, budget: 2000 });
+    assert.ok(result.length <= 2000, `Over budget: ${result.length}`);
+    assert.ok(Date.now() - start < 2000, `Took ${Date.now() - start}ms`);
+  });
+});
+
+// =============================================================================
+// 18. Streaming Inference
+// =============================================================================
+describe('inferShapeFromStream', () => {
+  /** Split text into chunks of the given size */
+  function chunked(text: string, size: number): string[] {
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size));
+    return chunks;
+  }
+
+  const data = {
+    a: [1, 2, { x: 'qé\n"', y: [[], [1, '2']] }],
+    b: { c: null, d: true, e: -1.5e3 },
+    f: [],
+    g: {},
+    'kሴ': '😀',
+  };
+  const text = JSON.stringify(data, null, 2);
+
+  it('produces the same shape as inferShape, whatever the chunk boundaries', async () => {
+    for (const size of [1, 2, 3, 7, text.length]) {
+      assert.deepEqual(await inferShapeFromStream(chunked(text, size)), inferShape(data));
+    }
+  });
+
+  it('respects maxDepth like inferShape', async () => {
+    for (const maxDepth of [0, 1, 2]) {
+      assert.deepEqual(
+        await inferShapeFromStream([text], { maxDepth }),
+        inferShape(data, { maxDepth })
+      );
+    }
+  });
+
+  it('decodes UTF-8 byte chunks split inside multi-byte characters', async () => {
+    const bytes = new TextEncoder().encode(text);
+    const chunks: Uint8Array[] = [];
+    for (let i = 0; i < bytes.length; i += 3) chunks.push(bytes.slice(i, i + 3));
+    assert.deepEqual(await inferShapeFromStream(chunks), inferShape(data));
+  });
+
+  it('accepts async iterables', async () => {
+    async function* source() {
+      yield '[{"id": 1}, ';
+      yield '{"id": 2, "x": true}]';
+    }
+    assert.deepEqual(
+      await inferShapeFromStream(source()),
+      inferShape([{ id: 1 }, { id: 2, x: true }])
+    );
+  });
+
+  it('counts every element but only samples up to sampleSize', async () => {
+    const big = Array.from({ length: 1000 }, (_, i) => ({ id: i, [i === 999 ? 'last' : 'name']: 'x' }));
+    const shape = await inferShapeFromStream([JSON.stringify(big)], { sampleSize: 50 });
+    assert.equal(shape.kind, 'array');
+    if (shape.kind === 'array') {
+      assert.equal(shape.length, 1000);
+      assert.equal(shape.children.kind, 'object');
+      if (shape.children.kind === 'object') {
+        assert.deepEqual(Object.keys(shape.children.keys), ['id', 'name']);
+      }
+    }
+  });
+
+  it('samples arrays no longer than sampleSize completely', async () => {
+    const small = [1, 2, 3, 'four'];
+    assert.deepEqual(await inferShapeFromStream([JSON.stringify(small)], { sampleSize: 4 }), inferShape(small));
+  });
+
+  it('records the length of arrays collapsed at maxDepth', async () => {
+    const shape = await inferShapeFromStream(['{"a": [[1], [2], [3]]}'], { maxDepth: 1 });
+    assert.deepEqual(shape, inferShape({ a: [[1], [2], [3]] }, { maxDepth: 1 }));
+  });
+
+  it('counts the keys of objects cut at maxDepth', async () => {
+    const data = { a: [{ x: 1, y: 2 }, { x: 1 }], b: { c: {} }, e: {} };
+    assert.deepEqual(await inferShapeFromStream([JSON.stringify(data)], { maxDepth: 1 }), inferShape(data, { maxDepth: 1 }));
+    assert.deepEqual(await inferShapeFromStream([JSON.stringify(data)], { maxDepth: 2 }), inferShape(data, { maxDepth: 2 }));
+  });
+
+  it('rejects invalid JSON with a SyntaxError', async () => {
+    for (const bad of ['{"a": 1,}', '[1 2]', '', '{"a": [1, 2]', '"abc']) {
+      await assert.rejects(inferShapeFromStream([bad]), SyntaxError, `Expected rejection for ${bad}`);
+    }
+  });
+});
+
+// =============================================================================
+// 19. Examples
+// =============================================================================
+describe('Examples', () => {
+  it('are off by default', () => {
+    const shape = inferShape(['a', 'b']);
+    assert.deepEqual(shape, { kind: 'array', length: 2, children: { kind: 'scalar', type: 'string' } });
+  });
+
+  it('records distinct sampled values per scalar leaf, in order seen', () => {
+    const shape = inferShape(['active', 'paused', 'active'], { examples: 3 });
+    assert.deepEqual(shape, {
+      kind: 'array',
+      length: 3,
+      children: { kind: 'scalar', type: 'string', examples: ['active', 'paused'] },
+    });
+  });
+
+  it('keeps at most `examples` values and flags that there were more', () => {
+    const shape = inferShape([1, 2, 3, 4], { examples: 2 });
+    assert.deepEqual(shape, {
+      kind: 'array',
+      length: 4,
+      children: { kind: 'scalar', type: 'number', examples: [1, 2], moreExamples: true },
+    });
+  });
+
+  it('renders examples after the type, with … when there are more', () => {
+    const data = [{ status: 'active' }, { status: 'paused' }, { status: 'closed' }];
+    assert.equal(thumb(data, { examples: 2 }), 'Array(3) of {status: string ("active", "paused", …)}');
+    assert.equal(thumb(data, { examples: 3 }), 'Array(3) of {status: string ("active", "paused", "closed")}');
+  });
+
+  it('shows examples for each scalar type of a union, but not for booleans or null', () => {
+    assert.equal(
+      thumb([1, 'x', true, null, 2], { examples: 3 }),
+      'Array(5) of number (1, 2) | string ("x") | boolean | null'
+    );
+  });
+
+  it('cuts long strings and escapes quotes', () => {
+    const result = thumb({ url: 'https://example.com/some/long/path', q: 'a"b' }, { examples: 1 });
+    assert.equal(result, '{url: string<url> ("https://example.com/som…"), q: string ("a\\"b")}');
+  });
+
+  it('are dropped first when over budget', () => {
+    const data = Array.from({ length: 10 }, (_, i) => ({ id: i, name: `name-${i}` }));
+    assert.equal(thumb(data, { examples: 3, budget: 50 }), 'Array(10) of {id: number, name: string}');
+  });
+});
+
+// =============================================================================
+// 20. String Formats
+// =============================================================================
+describe('String Formats', () => {
+  const cases: Array<[string, string]> = [
+    ['2024-01-01T12:30:00Z', 'date-time'],
+    ['2024-01-01T12:30:00.123+02:00', 'date-time'],
+    ['2024-01-01 12:30', 'date-time'],
+    ['2024-01-01', 'date'],
+    ['123e4567-e89b-12d3-a456-426614174000', 'uuid'],
+    ['https://example.com/a?b=c', 'url'],
+    ['alice@example.com', 'email'],
+    ['42.10', 'numeric'],
+    ['-7', 'numeric'],
+  ];
+
+  for (const [value, format] of cases) {
+    it(`${JSON.stringify(value)} → string<${format}>`, () => {
+      assert.equal(thumb(value), `string<${format}>`);
+      assert.deepEqual(inferShape(value), { kind: 'scalar', type: 'string', format });
+    });
+  }
+
+  it('plain strings have no format', () => {
+    for (const value of ['hello', '', 'abc-123', 'a@b', '1.2.3', '2024-1-1']) {
+      assert.deepEqual(inferShape(value), { kind: 'scalar', type: 'string' }, value);
+    }
+  });
+
+  it('format survives merging when all samples agree', () => {
+    assert.equal(thumb(['2024-01-01', '2024-02-29']), 'Array(2) of string<date>');
+  });
+
+  it('degrades to plain string when samples disagree', () => {
+    assert.equal(thumb(['2024-01-01', '2024-01-01T00:00:00Z']), 'Array(2) of string');
+    assert.equal(thumb(['2024-01-01', 'soon']), 'Array(2) of string');
+  });
+
+  it('is kept in unions', () => {
+    assert.equal(thumb([{ at: '2024-01-01' }, { at: null }]), 'Array(2) of {at: string<date> | null}');
+  });
+
+  it('is combined with examples', () => {
+    assert.equal(thumb({ price: '42.10' }, { examples: 1 }), '{price: string<numeric> ("42.10")}');
+  });
+
+  it('formats: false turns detection off', () => {
+    assert.deepEqual(inferShape('2024-01-01', { formats: false }), { kind: 'scalar', type: 'string' });
+  });
+});
+
+// =============================================================================
+// 21. Enums
+// =============================================================================
+describe('Enums', () => {
+  const issues = Array.from({ length: 12 }, (_, i) => ({
+    state: ['open', 'closed', 'merged'][i % 3],
+    priority: i % 4,
+    locked: true,
+    draft: i % 2 === 0,
+    title: `Issue ${i}`,
+  }));
+
+  it('are off by default', () => {
+    assert.equal(
+      thumb(issues),
+      'Array(12) of {\n  state: string,\n  priority: number,\n  locked: boolean,\n  draft: boolean,\n  title: string\n}'
+    );
+  });
+
+  it('render low-cardinality strings, numbers and constant booleans as literals', () => {
+    assert.equal(
+      thumb(issues, { enums: 5 }),
+      'Array(12) of {\n  state: "open" | "closed" | "merged",\n  priority: 0 | 1 | 2 | 3,\n  locked: true,\n  draft: boolean,\n  title: string\n}'
+    );
+  });
+
+  it('fall back to the type when there are more distinct values than the threshold', () => {
+    assert.equal(thumb(issues.map(i => i.priority), { enums: 3 }), 'Array(12) of number');
+  });
+
+  it('need some value to repeat', () => {
+    assert.equal(thumb({ name: 'Alice' }, { enums: 5 }), '{name: string}');
+    assert.equal(thumb(['a', 'b', 'c'], { enums: 5 }), 'Array(3) of string');
+    assert.equal(thumb(['a', 'b', 'a'], { enums: 5 }), 'Array(3) of "a" | "b"');
+  });
+
+  it('combine with other types in a union', () => {
+    assert.equal(thumb(['x', null, 'x', 1], { enums: 5 }), 'Array(4) of "x" | null | number');
+  });
+
+  it('escape string literals', () => {
+    assert.equal(thumb(['a "b"', 'a "b"'], { enums: 5 }), 'Array(2) of "a \\"b\\""');
+  });
+
+  it('expose distinct values and sample count on the scalar shape', () => {
+    assert.deepEqual(inferShape(['a', 'b', 'a'], { enums: 5 }), {
+      kind: 'array',
+      length: 3,
+      children: { kind: 'scalar', type: 'string', values: ['a', 'b'], count: 3 },
+    });
+    assert.deepEqual(inferShape([1, 2, 3], { enums: 2 }), {
+      kind: 'array',
+      length: 3,
+      children: { kind: 'scalar', type: 'number', count: 3 },
+    });
+  });
+
+  it('are dropped over budget, like examples', () => {
+    assert.equal(thumb(['open', 'closed', 'open'], { enums: 5, budget: 20 }), 'Array(3) of string');
+  });
+});
+
+// =============================================================================
+// 22. Stats
+// =============================================================================
+describe('Stats', () => {
+  const rows = Array.from({ length: 20 }, (_, i) => ({
+    id: i + 1,
+    ratio: i / 20,
+    name: 'x'.repeat((i % 5) + 3),
+    code: 'abc',
+    day: '2024-01-01',
+  }));
+
+  it('are off by default', () => {
+    assert.deepEqual(inferShape(42), { kind: 'scalar', type: 'number' });
+  });
+
+  it('render integer/number ranges and string length ranges', () => {
+    assert.equal(
+      thumb(rows, { stats: true }),
+      'Array(20) of {\n  id: integer(1..20),\n  ratio: number(0..0.95),\n  name: string(len 3-7),\n  code: string(len 3),\n  day: string<date>\n}'
+    );
+  });
+
+  it('collapse a single value to one number', () => {
+    assert.equal(thumb([5, 5], { stats: true }), 'Array(2) of integer(5)');
+  });
+
+  it('are exposed on the scalar shape', () => {
+    assert.deepEqual(inferShape([3, 1.5, 7], { stats: true }), {
+      kind: 'array',
+      length: 3,
+      children: { kind: 'scalar', type: 'number', integer: false, min: 1.5, max: 7 },
+    });
+    assert.deepEqual(inferShape(['ab', 'abcd'], { stats: true }), {
+      kind: 'array',
+      length: 2,
+      children: { kind: 'scalar', type: 'string', minLength: 2, maxLength: 4 },
+    });
+  });
+
+  it('are combined across merged objects and unions', () => {
+    assert.equal(
+      thumb([{ v: 10 }, { v: 'abc' }, { v: -2 }, { v: null }], { stats: true }),
+      'Array(4) of {v: integer(-2..10) | string(len 3) | null}'
+    );
+  });
+
+  it('are dropped over budget, like examples', () => {
+    assert.equal(thumb(rows, { stats: true, budget: 120 }), thumb(rows, { budget: 120 }));
+  });
+});
+
+// =============================================================================
+// 23. Tagged Unions
+// =============================================================================
+describe('Tagged Unions', () => {
+  const events = [
+    { type: 'click', x: 1, y: 2 },
+    { type: 'purchase', sku: 'a-1', amount: 3 },
+    { type: 'click', x: 5, y: 8 },
+    { type: 'view', page: '/home' },
+  ];
+
+  it('split objects by a discriminator key', () => {
+    assert.equal(
+      thumb(events),
+      'Array(4) of {type: "click", x: number, y: number}\n' +
+        '  | {type: "purchase", sku: string, amount: number}\n' +
+        '  | {type: "view", page: string}'
+    );
+  });
+
+  it('expose the discriminator and tag literals in the shape AST', () => {
+    const shape = inferShape(events);
+    assert.equal(shape.kind, 'array');
+    if (shape.kind !== 'array' || shape.children.kind !== 'varied') {
+      assert.fail(`Expected a varied child in ${JSON.stringify(shape)}`);
+    }
+    assert.equal(shape.children.discriminator, 'type');
+    assert.deepEqual(shape.children.variants[0], {
+      kind: 'object',
+      keys: {
+        type: { shape: { kind: 'scalar', type: 'string', literal: 'click' }, optional: false },
+        x: { shape: { kind: 'scalar', type: 'number' }, optional: false },
+        y: { shape: { kind: 'scalar', type: 'number' }, optional: false },
+      },
+    });
+  });
+
+  it('keep optional keys within a variant', () => {
+    const data = [
+      { kind: 'a', x: 1, note: 'n' },
+      { kind: 'a', x: 2 },
+      { kind: 'b', y: true },
+    ];
+    assert.equal(thumb(data), 'Array(3) of {kind: "a", x: number, note?: string} | {kind: "b", y: boolean}');
+  });
+
+  it('are not detected without a repeated tag', () => {
+    const data = [{ name: 'Alice', admin: true }, { name: 'Bob' }, { name: 'Carol', guest: true }];
+    assert.equal(thumb(data), 'Array(3) of {name: string, admin?: boolean, guest?: boolean}');
+  });
+
+  it('are not detected when tags share the same keys', () => {
+    const data = [{ status: 'open', id: 1 }, { status: 'closed', id: 2 }, { status: 'open', id: 3 }];
+    assert.equal(thumb(data), 'Array(3) of {status: string, id: number}');
+  });
+
+  it('are not detected when tags differ only by a key that is optional anyway', () => {
+    const orders = Array.from({ length: 49 }, (_, i) =>
+      i % 2 ? { currency: 'USD', amount: i } : { currency: 'USD', amount: i, discount: 5 }
+    );
+    orders.push({ currency: 'EUR', amount: 9, discount: 1 });
+    assert.equal(thumb(orders), 'Array(50) of {currency: string, amount: number, discount?: number}');
+  });
+
+  it('are not detected when some element is not an object', () => {
+    assert.equal(
+      thumb([...events, null]),
+      'Array(5) of {\n  type: string,\n  x?: number,\n  y?: number,\n  sku?: string,\n  amount?: number,\n  page?: string\n} | null'
+    );
+  });
+
+  it('stay tagged when merged across arrays and with null', () => {
+    const data = [{ log: events }, { log: events.slice(0, 3) }, { log: null }];
+    assert.equal(
+      thumb(data),
+      'Array(3) of {\n' +
+        '  log: (Array(3-4) of {type: "click", x: number, y: number}\n' +
+        '    | {type: "purchase", sku: string, amount: number}\n' +
+        '    | {type: "view", page: string}) | null\n' +
+        '}'
+    );
+  });
+
+  it('are detected the same way when streaming', async () => {
+    const data = { events, nested: [{ events }, { events: events.slice(1) }] };
+    assert.deepEqual(await inferShapeFromStream([JSON.stringify(data)]), inferShape(data));
+  });
+
+  it('taggedUnions: false folds the variants into one object', () => {
+    assert.equal(
+      thumb(events, { taggedUnions: false }),
+      'Array(4) of {\n  type: string,\n  x?: number,\n  y?: number,\n  sku?: string,\n  amount?: number,\n  page?: string\n}'
+    );
+  });
+});
+
+// =============================================================================
+// 24. Maps
+// =============================================================================
+describe('Maps', () => {
+  const users: Record<string, unknown> = {};
+  for (let i = 0; i < 40; i++) users[`user_${100 + i}`] = { name: `u${i}`, age: i };
+
+  it('objects keyed by IDs render as Map(N) of key → value', () => {
+    assert.equal(
+      thumb(users),
+      'Map(40) of string ("user_100", "user_101", "user_102", …) → {\n  name: string,\n  age: number\n}'
+    );
+  });
+
+  it('date keys keep their format', () => {
+    const daily = { '2024-01-01': 5, '2024-01-02': 7, '2024-01-03': 0, '2024-01-04': 2, '2024-01-05': 1 };
+    assert.equal(
+      thumb({ daily }),
+      '{\n  daily: Map(5) of string<date> ("2024-01-01", "2024-01-02", "2024-01-03", …) → number\n}'
+    );
+  });
+
+  it('values may be null as well as one shape', () => {
+    const data = { a1: 1, a2: null, a3: 3, a4: 4, a5: 5 };
+    assert.equal(thumb(data), 'Map(5) of string ("a1", "a2", "a3", …) → number | null');
+  });
+
+  it('needs enough keys, all generated-looking, with values of one shape', () => {
+    assert.equal(thumb({ a1: 1, a2: 2, a3: 3, a4: 4 }), '{a1: number, a2: number, a3: number, a4: number}');
+    assert.equal(inferShape({ a1: 1, a2: 2, a3: 3, a4: 4, name: 5 }).kind, 'object');
+    assert.equal(inferShape({ a1: 1, a2: 2, a3: 3, a4: 4, a5: 'x' }).kind, 'object');
+  });
+
+  it('samples values like array elements', () => {
+    const shape = inferShape(users, { sampleSize: 4 });
+    assert.equal(shape.kind, 'map');
+    if (shape.kind === 'map') assert.equal(shape.size, 40);
+  });
+
+  it('merges maps across records, and small objects with generated keys into them', () => {
+    const data = [
+      { counts: { '2024-01-01': 1, '2024-01-02': 2, '2024-01-03': 3, '2024-01-04': 4, '2024-01-05': 5 } },
+      { counts: { '2024-02-01': 1, '2024-02-02': 2 } },
+      { counts: {} },
+    ];
+    assert.equal(
+      thumb(data),
+      'Array(3) of {\n  counts: Map(0-5) of string<date> ("2024-01-01", "2024-01-02", "2024-01-03", …) → number\n}'
+    );
+  });
+
+  it('collapses values at maxDepth', () => {
+    assert.equal(thumb({ users }, { maxDepth: 1 }), '{users: {...}}');
+    assert.equal(
+      thumb({ users }, { maxDepth: 2 }),
+      '{users: Map(40) of string ("user_100", "user_101", "user_102", …) → {...}}'
+    );
+  });
+
+  it('budget collapses the values, then drops the example keys', () => {
+    assert.equal(
+      thumb(users, { budget: 75 }),
+      'Map(40) of string ("user_100", "user_101", "user_102", …) → {...2 keys}'
+    );
+    assert.equal(thumb(users, { budget: 40 }), 'Map(40) of string → {...2 keys}');
+  });
+
+  it('maps: false keeps every key', () => {
+    assert.equal(inferShape(users, { maps: false }).kind, 'object');
+  });
+
+  it('are detected the same way when streaming', async () => {
+    const data = { users, nested: [{ users }, { users: { user_1: { name: 'x', age: 1 } } }] };
+    assert.deepEqual(await inferShapeFromStream([JSON.stringify(data)], { sampleSize: 7 }), inferShape(data, { sampleSize: 7 }));
+  });
+});
+
+// =============================================================================
+// 25. checkShape
+// =============================================================================
+describe('checkShape', () => {
+  /** Violations as "path: message" strings */
+  function check(value: unknown, against: unknown, maxDepth?: number): string[] {
+    return checkShape(value, inferShape(against, { maxDepth }), { maxDepth }).map(v => `${v.path}: ${v.message}`);
+  }
+
+  const yesterday = {
+    results: [
+      { id: 1, price: 10, tags: ['a'], note: 'x' },
+      { id: 2, price: 12, tags: ['b', 'c'] },
+    ],
+    updated: '2024-01-01',
+  };
+
+  it('a value matches the shape it was inferred from', () => {
+    assert.deepEqual(check(yesterday, yesterday), []);
+  });
+
+  it('reports type mismatches by jq path', () => {
+    const today = { ...yesterday, results: [...yesterday.results, { id: 3, price: '9.99', tags: [] }] };
+    assert.deepEqual(check(today, yesterday), [
+      '.results[2].price: expected number, got string',
+      '.results[2].tags: expected 1-2 elements, got 0',
+    ]);
+  });
+
+  it('reports missing required keys and unexpected keys, not missing optional ones', () => {
+    const today = { results: [{ price: 1, tags: ['a'], discount: 5 }], updated: '2024-01-02' };
+    assert.deepEqual(check(today, yesterday), [
+      '.results[0].id: missing required key',
+      '.results[0].discount: unexpected key',
+    ]);
+  });
+
+  it('checks string formats', () => {
+    assert.deepEqual(check({ ...yesterday, updated: 'yesterday' }, yesterday), [
+      '.updated: expected string<date>, got "yesterday"',
+    ]);
+  });
+
+  it('accepts any variant of a union, and names them all otherwise', () => {
+    assert.deepEqual(check([1, null, 'a'], [1, null]), ['.[2]: expected number | null, got string']);
+    assert.deepEqual(check({ a: [1] }, { a: 'x' }), ['.a: expected string, got array']);
+  });
+
+  it('checks tagged union members against the variant for their tag', () => {
+    const events = [
+      { type: 'click', x: 1 },
+      { type: 'view', page: 'a' },
+      { type: 'click', x: 2 },
+    ];
+    assert.deepEqual(check([{ type: 'view', x: 1 }, { type: 'buy' }, {}], events), [
+      '.[0].page: missing required key',
+      '.[0].x: unexpected key',
+      '.[1].type: expected "click" | "view", got "buy"',
+      '.[2].type: missing required key',
+    ]);
+  });
+
+  it('checks every value of a map', () => {
+    const counts = { a1: 1, a2: 2, a3: 3, a4: 4, a5: 5 };
+    assert.deepEqual(check({ ...counts, a6: 'six' }, counts), ['.a6: expected number, got string']);
+  });
+
+  it('does not look into containers at maxDepth', () => {
+    assert.deepEqual(check({ a: { b: 'x' } }, { a: { c: 1 } }, 1), []);
+  });
+
+  it('quotes keys that are not jq identifiers', () => {
+    assert.deepEqual(check({ 'content-type': 1 }, { 'content-type': 'x' }), [
+      '.["content-type"]: expected string, got number',
+    ]);
+  });
+});
+
+// =============================================================================
+// 26. diffShapes
+// =============================================================================
+describe('diffShapes', () => {
+  /** The rendered diff between the shapes of two values */
+  function diff(before: unknown, after: unknown): string {
+    return renderShapeDiff(diffShapes(inferShape(before), inferShape(after)));
+  }
+
+  const v1 = [
+    { id: 1, price: 10, note: 'a', tags: ['x'] },
+    { id: 2, price: 12, tags: ['x', 'y'] },
+  ];
+
+  it('identical shapes have no changes', () => {
+    assert.deepEqual(diffShapes(inferShape(v1), inferShape(v1)), []);
+    assert.deepEqual(diffShapes(inferShape([1, null]), inferShape([null, 1])), []);
+  });
+
+  it('lists added, removed, optional and required keys', () => {
+    const v2 = [
+      { id: 1, price: 10, note: 'a', discount: 5 },
+      { price: 12, note: 'b', tags: ['x'] },
+    ];
+    assert.equal(
+      diff(v1, v2),
+      [
+        '~ .[].id: now optional (breaking)',
+        '~ .[].note: now required',
+        '~ .[].tags: now optional (breaking)',
+        '+ .[].discount: number',
+      ].join('\n')
+    );
+    assert.equal(diff({ a: 1, b: 2 }, { a: 1 }), '- .b: number (breaking)');
+  });
+
+  it('widened types are breaking, narrowed ones are not', () => {
+    assert.equal(diff({ price: 1 }, [{ price: 1 }, { price: null }]), '~ .: object → array (breaking)');
+    assert.equal(diff([{ p: 1 }], [{ p: 1 }, { p: null }]), '~ .[].p: number → number | null (breaking)');
+    assert.equal(diff([{ p: 1 }, { p: null }], [{ p: 1 }]), '~ .[].p: number | null → number');
+    assert.equal(diff({ d: '2024-01-01' }, { d: 'soon' }), '~ .d: string<date> → string (breaking)');
+  });
+
+  it('compares merged array length ranges', () => {
+    assert.equal(diff([[1], [1, 2]], [[1], [1, 2, 3]]), '~ .[]: Array(1-2) → Array(1-3) (breaking)');
+    assert.equal(diff([[1], [1, 2, 3]], [[1, 2], [1, 2]]), '~ .[]: Array(1-3) → Array(2)');
+  });
+
+  it('compares tagged unions tag by tag', () => {
+    const before = [
+      { type: 'click', x: 1 },
+      { type: 'view', page: 'a' },
+      { type: 'click', x: 2 },
+    ];
+    const after = [
+      { type: 'click', x: 1, y: 2 },
+      { type: 'view', page: 'a' },
+      { type: 'click', x: 2, y: 3 },
+      { type: 'buy', sku: 'a' },
+      { type: 'buy', sku: 'b' },
+    ];
+    assert.equal(
+      diff(before, after),
+      ['~ .[].type: "click" | "view" → "click" | "view" | "buy" (breaking)', '+ .[].y: number'].join('\n')
+    );
+  });
+
+  it('compares an object with a map as two maps when its keys look generated', () => {
+    const few = { users: { user_1: { n: 1 }, user_2: { n: 2 } } };
+    const many = { users: Object.fromEntries([1, 2, 3, 4, 5, 6].map(i => [`user_${i}`, { n: 'x' }])) };
+    assert.equal(diff(few, many), '~ .users[].n: number → string (breaking)');
+    assert.equal(diff(many, few), '~ .users[].n: string → number (breaking)');
+    assert.equal(diff({ users: { name: 'a', age: 1 } }, many), '~ .users: object → map (breaking)');
+  });
+
+  it('compares the nodes of a recursive shape with a shape that is not', () => {
+    const tree = { text: 'a', replies: [{ text: 'b', replies: [{ text: 'c', replies: [] }] }] };
+    const flat = { text: 'a', replies: [{ text: 'b', likes: 1 }, { text: 'c', likes: 2 }] };
+    assert.equal(
+      diff(tree, flat),
+      ['- .replies[].replies: array (breaking)', '+ .replies[].likes: number'].join('\n')
+    );
+    assert.equal(
+      diff(flat, tree),
+      ['- .replies[].likes: number (breaking)', '+ .replies[].replies: array'].join('\n')
+    );
+    assert.deepEqual(diffShapes(inferShape(tree), inferShape(tree)), []);
+  });
+
+  it('returns structured changes', () => {
+    assert.deepEqual(diffShapes(inferShape({ a: 1 }), inferShape({ a: 'x' })), [
+      { path: '.a', kind: 'type', breaking: true, before: 'number', after: 'string' },
+    ]);
+  });
+});
+
+// =============================================================================
+// 27. ShapeAccumulator
+// =============================================================================
+describe('ShapeAccumulator', () => {
+  it('has no shape before the first document', () => {
+    const acc = new ShapeAccumulator();
+    assert.equal(acc.count, 0);
+    assert.equal(acc.shape(), undefined);
+    assert.equal(acc.thumb(), undefined);
+  });
+
+  it('merges every document: optional keys, unions and length ranges', () => {
+    const acc = new ShapeAccumulator();
+    acc.add({ id: 1, tags: ['a'] });
+    assert.equal(acc.thumb(), '{id: number, tags: Array(1) of string}');
+    acc.add({ id: 'b', tags: ['a', 'b', 'c'], admin: true });
+    acc.add({ id: 3, tags: [] });
+    assert.equal(acc.count, 3);
+    assert.equal(acc.thumb(), '{id: number | string, tags: Array(0-3) of string, admin?: boolean}');
+  });
+
+  it('keeps a key optional once any document lacked it', () => {
+    const acc = new ShapeAccumulator();
+    acc.add({ items: [{ a: 1 }, { a: 2, b: 1 }] });
+    acc.add({ items: [{ a: 3, b: 2 }] });
+    assert.equal(acc.thumb(), '{items: Array(1-2) of {a: number, b?: number}}');
+  });
+
+  it('uses its options for inference, and for rendering unless overridden', () => {
+    const acc = new ShapeAccumulator({ stats: true, maxDepth: 1 });
+    acc.add({ n: 5, o: { x: 1 } });
+    acc.add({ n: 9, o: { x: 2 } });
+    assert.equal(acc.thumb(), '{n: integer(5..9), o: {...}}');
+    assert.equal(acc.thumb({ budget: 10 }), '{...2 keys}');
+  });
+
+  it('describes the same documents as inferring their array in one go, minus sampling', () => {
+    const docs = [{ a: 1 }, { a: 2, b: 'x' }, { a: null }];
+    const acc = new ShapeAccumulator();
+    docs.forEach(d => acc.add(d));
+    assert.equal(acc.thumb(), thumb(docs).replace(/^Array\(3\) of /, ''));
+  });
+});
+
+// =============================================================================
+// 28. NDJSON
+// =============================================================================
+describe('NDJSON', () => {
+  const records = [
+    { id: 1, ms: 3 },
+    { id: 2, ms: 950, slow: true },
+    { id: 3, ms: 4 },
+  ];
+  const text = records.map(r => JSON.stringify(r)).join('\n') + '\n';
+
+  it('describes each line as a record: Lines(N) of ...', () => {
+    const { shape, malformed, malformedCount } = inferShapeFromLines(text);
+    assert.equal(renderThumb(shape), 'Lines(3) of {id: number, ms: number, slow?: boolean}');
+    assert.deepEqual(malformed, []);
+    assert.equal(malformedCount, 0);
+    // Records merge like the elements of an array
+    assert.deepEqual({ ...shape, lines: undefined }, { ...inferShape(records), lines: undefined });
+  });
+
+  it('skips blank lines and reports malformed ones with their line numbers', () => {
+    const input = '{"a": 1}\r\n\n{"a": \nnot json\n  \n{"a": 2}';
+    const { shape, malformed, malformedCount } = inferShapeFromLines(input);
+    assert.equal(renderThumb(shape), 'Lines(2) of {a: number}');
+    assert.deepEqual(malformed.map(m => m.line), [3, 4]);
+    assert.ok(malformed.every(m => m.message.length > 0));
+    assert.equal(malformedCount, 2);
+  });
+
+  it('lists at most 100 malformed lines, but counts them all', () => {
+    const { shape, malformed, malformedCount } = inferShapeFromLines('x\n'.repeat(150));
+    assert.equal(renderThumb(shape), 'Lines(0)');
+    assert.equal(malformed.length, 100);
+    assert.equal(malformed[99].line, 100);
+    assert.equal(malformedCount, 150);
+  });
+
+  it('samples lines evenly, counting every one', () => {
+    const lines = Array.from({ length: 1000 }, (_, i) => JSON.stringify(i % 100 === 50 ? { id: i, rare: true } : { id: i }));
+    const { shape } = inferShapeFromLines(lines.join('\n'), { sampleSize: 10 });
+    assert.equal(renderThumb(shape), 'Lines(1000) of {id: number}');
+    assert.equal(renderThumb(inferShapeFromLines(lines.join('\n'), { sampleSize: 1000 }).shape),
+      'Lines(1000) of {id: number, rare?: boolean}');
+  });
+
+  it('streams lines across chunk boundaries, matching inferShapeFromLines', async () => {
+    const input = text + 'oops\n[1, 2]';
+    for (const size of [1, 5, input.length]) {
+      const chunks: string[] = [];
+      for (let i = 0; i < input.length; i += size) chunks.push(input.slice(i, i + size));
+      const streamed = await inferShapeFromLineStream(chunks);
+      const whole = inferShapeFromLines(input);
+      assert.deepEqual(streamed.shape, whole.shape);
+      assert.deepEqual(streamed.malformed, whole.malformed);
+      assert.equal(streamed.malformed[0].line, 4);
+    }
+  });
+
+  it('streams by stride doubling past sampleSize', async () => {
+    const lines = Array.from({ length: 1000 }, (_, i) => `{"n": ${i}}`).join('\n');
+    const { shape } = await inferShapeFromLineStream([lines], { sampleSize: 50, stats: true });
+    assert.equal(shape.length, 1000);
+    assert.equal(renderThumb(shape), 'Lines(1000) of {n: integer(0..992)}');
+  });
+
+  it('records the line count at maxDepth 0', () => {
+    assert.equal(renderThumb(inferShapeFromLines(text, { maxDepth: 0 }).shape, { maxDepth: 0 }), 'Lines(3) of ...');
+  });
+
+  it('gives jq paths relative to each record, and parses back', () => {
+    const { shape } = inferShapeFromLines(text);
+    assert.deepEqual(jqPaths(shape).map(p => p.path), ['.id', '.ms', '.slow']);
+    assert.deepEqual(parseThumb(renderThumb(shape)), shape);
+  });
+});
+
+// =============================================================================
+// 29. Frequencies
+// =============================================================================
+describe('Frequencies', () => {
+  const products = Array.from({ length: 50 }, (_, i) =>
+    i % 5 === 0 ? { score: 'n/a', inStock: true } : { score: i, ...(i % 3 ? { inStock: false } : {}) }
+  );
+
+  it('renders the share of objects that have each optional key, and of each variant', () => {
+    assert.equal(
+      thumb(products, { frequencies: true }),
+      'Array(50) of {score: string(20%) | number(80%), inStock?(74%): boolean}'
+    );
+    // Off by default
+    assert.equal(thumb(products), 'Array(50) of {score: string | number, inStock?: boolean}');
+  });
+
+  it('counts presence on FieldShape and values on each variant', () => {
+    const shape = inferShape(products, { frequencies: true });
+    assert.ok(shape.kind === 'array' && shape.children.kind === 'object');
+    const { keys, count } = shape.children;
+    assert.equal(count, 50);
+    assert.equal(keys.inStock.count, 37);
+    assert.equal(keys.score.count, 50);
+    assert.ok(keys.score.shape.kind === 'varied');
+    assert.deepEqual(keys.score.shape.variants.map(v => v.kind !== 'varied' && v.count), [10, 40]);
+  });
+
+  it('counts only the sampled values', () => {
+    const big = Array.from({ length: 1000 }, (_, i) => (i % 2 ? i : null));
+    // A lone shape has no share to show
+    assert.equal(thumb(big, { frequencies: true, sampleSize: 10 }), 'Array(1000) of null');
+    assert.equal(thumb(big, { frequencies: true, sampleSize: 1000 }), 'Array(1000) of null(50%) | number(50%)');
+  });
+
+  it('rounds the shares of a union so they add up to 100%', () => {
+    assert.equal(thumb([1, 2, 3, 4, 5, 6, 7, 'a'], { frequencies: true }), 'Array(8) of number(88%) | string(12%)');
+    assert.equal(thumb([1, 'a', null], { frequencies: true }), 'Array(3) of number(34%) | string(33%) | null(33%)');
+  });
+
+  it('parenthesizes variants with parts of their own, and marks shares that round away', () => {
+    const data = [...Array.from({ length: 299 }, () => 'open'), 'closed', [1], [2]];
+    assert.equal(
+      thumb(data, { frequencies: true, enums: 2, sampleSize: 302 }),
+      'Array(302) of ("open" | "closed")(>99%) | (Array(1) of number)(<1%)'
+    );
+  });
+
+  it('counts tagged-union variants, streamed or not', async () => {
+    const events = [{ type: 'a', x: 1 }, { type: 'b', y: 1 }, { type: 'a', x: 2 }, { type: 'a' }];
+    assert.equal(
+      thumb(events, { frequencies: true }),
+      'Array(4) of {type: "a", x?(67%): number}(75%) | {type: "b", y: number}(25%)'
+    );
+    assert.deepEqual(
+      await inferShapeFromStream([JSON.stringify({ events, products })], { frequencies: true }),
+      inferShape({ events, products }, { frequencies: true })
+    );
+  });
+
+  it('counts documents in a ShapeAccumulator', () => {
+    const acc = new ShapeAccumulator({ frequencies: true });
+    for (let i = 0; i < 8; i++) acc.add(i < 2 ? { id: i, admin: true } : { id: `u${i}` });
+    assert.equal(acc.thumb(), '{id: number(25%) | string(75%), admin?(25%): boolean}');
+  });
+});
+
+// =============================================================================
+// 30. Cycles and JavaScript values
+// =============================================================================
+describe('Cycles and JavaScript values', () => {
+  class Point {
+    constructor(
+      public x: number,
+      public y: number
+    ) {}
+  }
+  const values = {
+    at: new Date(0),
+    big: 10n,
+    fn: () => 1,
+    gone: undefined,
+    ids: new Set([1, 2, 3]),
+    bytes: new Uint8Array(4),
+    byId: new Map([
+      [1, { ok: true }],
+      [2, { ok: false }],
+    ]),
+    at0: new Point(0, 0),
+  };
+
+  it('renders a reference to an enclosing object as <circular path>', () => {
+    const root: any = { name: 'root', children: [] };
+    root.children.push({ name: 'leaf', parent: root });
+    root.self = root;
+    assert.equal(
+      thumb(root),
+      '{\n  name: string,\n  children: Array(1) of {name: string, parent: <circular .>},\n  self: <circular .>\n}'
+    );
+    const list: any = { next: { next: {} } };
+    list.next.next.next = list.next;
+    assert.equal(thumb(list), '{next: {next: {next: <circular .next>}}}');
+  });
+
+  it('describes values shared without a cycle in full', () => {
+    const shared = { id: 1 };
+    assert.equal(thumb([shared, shared]), 'Array(2) of {id: number}');
+  });
+
+  it('describes values as JSON.stringify writes them by default', () => {
+    const { bytes, ...rest } = values;
+    assert.equal(
+      thumb(rest),
+      '{\n  at: string<date-time>,\n  big: bigint,\n  ids: {},\n  byId: {},\n  at0: {x: number, y: number}\n}'
+    );
+    // A typed array's elements are written as keys
+    assert.equal(thumb(bytes.subarray(0, 2)), '{"0": number, "1": number}');
+    assert.equal(thumb({ toJSON: () => [1] }), 'Array(1) of number');
+    assert.equal(thumb([() => 1, Symbol('s'), new String('s')]), 'Array(3) of null | string');
+  });
+
+  it('describes JavaScript values by their type with jsTypes', () => {
+    assert.equal(
+      thumb(values, { jsTypes: true }),
+      [
+        '{',
+        '  at: Date,',
+        '  big: bigint,',
+        '  fn: function,',
+        '  gone: undefined,',
+        '  ids: Set(3) of number,',
+        '  bytes: Uint8Array(4) of number,',
+        '  byId: Map(2) of number → {ok: boolean},',
+        '  at0: Point {x: number, y: number}',
+        '}',
+      ].join('\n')
+    );
+    assert.equal(thumb(new Map([['a', 1]]), { jsTypes: true }), 'Map(1) of string ("a") → number');
+    assert.equal(thumb({ m: new Map([[1, 2]]) }, { jsTypes: true, maxDepth: 1 }), '{m: Map {...}}');
+  });
+
+  it('checks values the way they are inferred', () => {
+    assert.deepEqual(checkShape(values, inferShape(values)), []);
+    assert.deepEqual(checkShape(values, inferShape(values, { jsTypes: true }), { jsTypes: true }), []);
+    const violations = checkShape({ ...values, ids: new Set(['a']) }, inferShape(values, { jsTypes: true }), {
+      jsTypes: true,
+    });
+    assert.deepEqual(violations, [{ path: '.ids[0]', message: 'expected number, got string' }]);
+  });
+});
+
+// =============================================================================
+// 31. Layout
+// =============================================================================
+describe('Layout', () => {
+  it('keeps an object on one line when it fits, whatever its key count', () => {
+    assert.equal(thumb({ x: 1, y: 2, z: 3, w: 4 }), '{x: number, y: number, z: number, w: number}');
+    const long = { aVeryLongPropertyName: 'a', anotherVeryLongPropertyName: 1, yetAnotherLongName: true };
+    assert.equal(
+      thumb(long),
+      '{\n  aVeryLongPropertyName: string,\n  anotherVeryLongPropertyName: number,\n  yetAnotherLongName: boolean\n}'
+    );
+  });
+
+  it('lays each value out in what is left of its line', () => {
+    const data = { user: { id: 1, name: 'a' }, tags: ['x'], address: { street: 's', city: 'c', zip: 'z' } };
+    assert.equal(
+      thumb(data, { maxLineWidth: 40 }),
+      '{\n  user: {id: number, name: string},\n  tags: Array(1) of string,\n  address: {\n    street: string,\n    city: string,\n    zip: string\n  }\n}'
+    );
+  });
+
+  it('wraps long unions one variant per line', () => {
+    const statuses = ['active', 'pending', 'suspended', 'deactivated', 'archived'];
+    const data = { status: [...statuses, ...statuses].map(s => s) };
+    assert.equal(
+      thumb(data, { enums: 5, maxLineWidth: 40 }),
+      '{\n  status: Array(10) of "active"\n    | "pending"\n    | "suspended"\n    | "deactivated"\n    | "archived"\n}'
+    );
+  });
+
+  it('wraps a union one variant per line when one of them is too wide for a line', () => {
+    const data = { mixed: [1, 'a', null, true, { name: 'x', email: 'e@x.com', age: 3, active: true }] };
+    const out = thumb(data, { maxLineWidth: 40 });
+    assert.equal(
+      out,
+      '{\n  mixed: Array(5) of number\n    | string\n    | null\n    | boolean\n    | {\n' +
+        '      name: string,\n      email: string<email>,\n      age: number,\n      active: boolean\n    }\n}'
+    );
+    for (const line of out.split('\n')) assert.ok(line.length <= 40, line);
+  });
+
+  it('renders everything on one line with maxLineWidth: Infinity', () => {
+    const data = { a: { b: 1, c: 'x', d: true, e: null, f: [1] }, g: [{ h: 1 }, { h: 'x', i: 2 }] };
+    assert.ok(!thumb(data, { maxLineWidth: Infinity }).includes('\n'));
+  });
+});
+
+// =============================================================================
+// 32. Recursive types
+// =============================================================================
+describe('Recursive types', () => {
+  const tree = {
+    name: 'root',
+    children: [{ name: 'a', children: [{ name: 'b', children: [] }] }, { name: 'c', children: [] }],
+  };
+
+  it('describes tree-shaped data as a named recursive type', () => {
+    assert.equal(thumb(tree), 'Node = {name: string, children: Array(0-2) of Node}');
+  });
+
+  it('names the type after the key holding it, in the singular for arrays', () => {
+    const post = { title: 't', comments: [{ text: 'x', replies: [{ text: 'y', replies: [] }] }] };
+    assert.equal(
+      thumb(post),
+      '{\n  title: string,\n  comments: Array(1) of Comment = {text: string, replies: Array(0-1) of Comment}\n}'
+    );
+  });
+
+  it('folds the same way when streaming', async () => {
+    const shape = await inferShapeFromStream([JSON.stringify(tree)]);
+    assert.deepEqual(shape, inferShape(tree));
+  });
+
+  it('checks every node against the recursive type', () => {
+    const bad = { name: 'x', children: [{ name: 'y', children: [{ name: 1, children: [] }] }] };
+    assert.deepEqual(checkShape(tree, inferShape(tree)), []);
+    assert.deepEqual(checkShape(bad, inferShape(tree)), [
+      { path: '.children[0].children[0].name', message: 'expected string, got number' },
+    ]);
+  });
+
+  it('counts each node once with frequencies', async () => {
+    const partial = { name: 'root', children: [{ name: 'a', children: [{ name: 'b' }] }, { name: 'c', children: [] }] };
+    assert.equal(thumb(partial, { frequencies: true }), 'Node = {name: string, children?(75%): Array(0-2) of Node}');
+    const list = { v: 1, next: { v: 2, next: { v: 3, next: null } } };
+    const text = 'Node = {v: number, next: Node(67%) | null(33%)}';
+    assert.equal(thumb(list, { frequencies: true }), text);
+    const streamed = await inferShapeFromStream([JSON.stringify(list)], { frequencies: true });
+    assert.equal(renderThumb(streamed, { frequencies: true }), text);
+  });
+
+  it('leaves objects alone that only share a key name with their parent', () => {
+    const data = { id: 1, user: { id: 2, user: 'alice', email: 'a@b.co' } };
+    assert.equal(thumb(data), '{id: number, user: {id: number, user: string, email: string<email>}}');
+  });
+
+  it('describes every value it was inferred from', () => {
+    // Random objects over a few shared key names: trees, near-trees and neither
+    let seed = 7;
+    const random = () => ((seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648);
+    const pick = <T,>(items: T[]): T => items[Math.floor(random() * items.length)];
+    const value = (depth: number): unknown => {
+      const kind = depth > 3 ? pick(['number', 'string', 'null']) : pick(['number', 'string', 'null', 'object', 'object', 'array']);
+      if (kind === 'number') return Math.floor(random() * 10);
+      if (kind === 'string') return pick(['al', 'x', '2024-01-01']);
+      if (kind === 'null') return null;
+      if (kind === 'array') return Array.from({ length: Math.floor(random() * 3) }, () => value(depth + 1));
+      const obj: Record<string, unknown> = {};
+      for (const key of ['a', 'c', 'id', 'user', 'children']) if (random() < 0.5) obj[key] = value(depth + 1);
+      return obj;
+    };
+    const cases: unknown[] = [
+      [{ id: 1, user: { id: 2, user: 'al' } }, { id: 3, user: { name: 'x' } }],
+      [{ a: { a: 1, c: 1 }, c: 1 }, { a: { c: 's' } }],
+    ];
+    for (let i = 0; i < 300; i++) cases.push([value(0), value(0)]);
+    for (const v of cases) {
+      assert.deepEqual(checkShape(v, inferShape(v)), [], JSON.stringify(v));
+    }
+  });
+
+  it('spells every level out with recursion: false', () => {
+    assert.equal(
+      thumb(tree, { recursion: false, maxLineWidth: Infinity }),
+      '{name: string, children: Array(2) of {name: string, children: Array(0-1) of {name: string, children: Array(0)}}}'
+    );
+  });
+});
+
+// =============================================================================
+// 33. Definitions
+// =============================================================================
+describe('Definitions', () => {
+  const user = (id: number) => ({ id, login: `u${id}` });
+  const issue = (id: number) => ({ id, author: user(id), assignee: user(id + 1), team: { name: 't', lead: user(1) } });
+  const data = { issues: [issue(1), issue(2)], owner: { name: 'o', lead: user(3) } };
+
+  it('describes repeated objects once, named after the key they first appear under', () => {
+    assert.equal(
+      thumb(data, { definitions: true }),
+      'Author = {id: number, login: string}\nTeam = {name: string, lead: Author}\n\n' +
+        '{\n  issues: Array(2) of {\n    id: number,\n    author: Author,\n    assignee: Author,\n    team: Team\n  },\n  owner: Team\n}'
+    );
+  });
+
+  it('leaves objects alone that appear once, have one key, or render differently', () => {
+    const data = { a: { x: 1 }, b: { x: 2 }, c: { y: 1, z: 'a' }, d: { y: 1, z: '2024-01-01' } };
+    assert.equal(
+      thumb(data, { definitions: true, maxLineWidth: Infinity }),
+      '{a: {x: number}, b: {x: number}, c: {y: number, z: string}, d: {y: number, z: string<date>}}'
+    );
+  });
+
+  it('names recursive objects by their definition', () => {
+    const post = { by: user(1), comments: [{ text: 'x', by: user(2), replies: [{ text: 'y', by: user(3), replies: [] }] }] };
+    assert.equal(
+      thumb(post, { definitions: true }),
+      'By = {id: number, login: string}\n\n' +
+        '{\n  by: By,\n  comments: Array(1) of Comment = {\n    text: string,\n    by: By,\n    replies: Array(0-1) of Comment\n  }\n}'
+    );
+  });
+
+  it('writes only the definitions a thumbnail cut to a budget still refers to', () => {
+    assert.equal(
+      thumb(data, { definitions: true, budget: 180 }),
+      'Team = {name: string, lead: {...2 keys}}\n\n' +
+        '{\n  issues: Array(2) of {\n    id: number,\n    author: {...2 keys},\n    assignee: {...2 keys},\n    team: Team\n  },\n  owner: Team\n}'
+    );
+    assert.equal(thumb(data, { definitions: true, budget: 60 }), '{issues: Array(2) of {...4 keys}, owner: {...2 keys}}');
+    for (let budget = 40; budget <= 200; budget += 10) {
+      const out = thumb(data, { definitions: true, budget });
+      for (const [, name, definition] of out.matchAll(/^(\w+) = (.*)$/gm)) {
+        assert.ok(!definition.startsWith('{...'), `${name} collapsed at budget ${budget}`);
+        assert.ok(out.split(name).length > 2, `${name} unused at budget ${budget}`);
+      }
+    }
+  });
+
+  it('is off by default', () => {
+    assert.ok(!thumb(data).includes(' = '));
+  });
+});
+
 // =============================================================================
 // Integration tests
 // =============================================================================
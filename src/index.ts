@@ -3,12 +3,59 @@
 //
 // No dependencies. Pure TypeScript.
 
+import { appendSegment, jqPaths, keySegment, quoteKey, renderJqPaths } from "./jq.js";
+import { DEFAULT_MAX_DEPTH, isEmptyArray, isEmptyMap, isEnumScalar, tagOf } from "./shapes.js";
+import { createJsonTokenizer } from "./tokenizer.js";
+
+export { toTypeScript, type TypeScriptOptions } from "./declarations.js";
+export { jqPaths, keySegment, quoteKey, type JqPath } from "./jq.js";
+export { parseThumb } from "./parse.js";
+export { toJSONSchema, type JSONSchema, type JSONSchemaOptions } from "./schema.js";
+
 // ─── Type Definitions ────────────────────────────────────────────────────────
 
-/** Scalar type shape: string, number, boolean, or null */
+/**
+ * Recognized string formats:
+ * - `date-time`: ISO 8601 timestamp, e.g. "2024-01-01T12:00:00Z"
+ * - `date`: ISO 8601 calendar date, e.g. "2024-01-01"
+ * - `uuid`: e.g. "123e4567-e89b-12d3-a456-426614174000"
+ * - `url`: absolute URL with a scheme, e.g. "https://example.com/a"
+ * - `email`: e.g. "alice@example.com"
+ * - `numeric`: a number written as a string, e.g. "42.10"
+ */
+export type StringFormat = "date-time" | "date" | "uuid" | "url" | "email" | "numeric";
+
+/**
+ * Scalar type shape: string, number, boolean, or null. Values JSON has no
+ * type for are scalars too: bigint, and with the `jsTypes` option undefined,
+ * symbol, function and Date.
+ */
 export type ScalarShape = {
   kind: "scalar";
-  type: "string" | "number" | "boolean" | "null";
+  type: "string" | "number" | "boolean" | "null" | "bigint" | "undefined" | "symbol" | "function" | "Date";
+  /** Format shared by every sampled string (absent if they disagree or have none) */
+  format?: StringFormat;
+  /** The one value this scalar takes: the tag of a tagged-union variant */
+  literal?: string;
+  /** Distinct sampled values, in order seen (strings and numbers; only with the `examples` option) */
+  examples?: Array<string | number>;
+  /** true if more distinct values were sampled than `examples` holds */
+  moreExamples?: boolean;
+  /**
+   * Every distinct sampled value, while there are at most `enums` of them
+   * (only with the `enums` option; absent once there are more)
+   */
+  values?: Array<string | number | boolean>;
+  /** Number of values sampled (only with the `enums` or `frequencies` option) */
+  count?: number;
+  /** Numbers: true if every sampled value is an integer (only with the `stats` option) */
+  integer?: boolean;
+  /** Numbers: smallest and largest sampled value (only with the `stats` option) */
+  min?: number;
+  max?: number;
+  /** Strings: shortest and longest sampled length (only with the `stats` option) */
+  minLength?: number;
+  maxLength?: number;
 };
 
 /**
@@ -18,6 +65,10 @@ export type ScalarShape = {
  * - `minLength`/`maxLength`: range of lengths seen when merging multiple arrays
  *   (e.g., a `tags` field across 100 records might have lengths 2–5)
  * - `children`: merged shape of all array elements
+ * - `lines`: true for the records of line-delimited input (NDJSON), rendered as `Lines(N)`
+ * - `className`: the collection's class when it isn't an array, rendered in
+ *   place of `Array`: `Set(3)`, `Uint8Array(16)` (only with the `jsTypes` option)
+ * - `count`: number of arrays sampled (only with the `frequencies` option)
  */
 export type ArrayShape = {
   kind: "array";
@@ -25,39 +76,387 @@ export type ArrayShape = {
   minLength?: number;
   maxLength?: number;
   children: Shape;
+  lines?: boolean;
+  className?: string;
+  count?: number;
 };
 
 /** Object shape: maps each key to its shape and whether it's optional */
 export type ObjectShape = {
   kind: "object";
   keys: Record<string, FieldShape>;
+  /**
+   * Class of a class instance, rendered before its keys: `Point {x: number, y: number}`
+   * (only with the `jsTypes` option)
+   */
+  className?: string;
+  /**
+   * true for the nodes of tree-shaped data: the `self` shapes inside it stand
+   * for this object again, rendered `Node = {name: string, children: Array(0-12) of Node}`
+   */
+  recursive?: boolean;
+  /** Number of objects sampled (only with the `frequencies` option) */
+  count?: number;
 };
 
-/** Union of multiple distinct shapes */
+/**
+ * Union of multiple distinct shapes.
+ *
+ * - `discriminator`: set when the union is tagged — its object variants are
+ *   told apart by the string value of this key, and each variant's field for
+ *   it is a scalar with that value as its `literal`
+ *
+ * With the `frequencies` option each variant carries its `count`, the number
+ * of sampled values it describes.
+ */
 export type VariedShape = {
   kind: "varied";
   variants: Shape[];
+  discriminator?: string;
+};
+
+/**
+ * Object used as a dictionary: many generated-looking keys (IDs, dates,
+ * numbers) mapping to values of one shape.
+ *
+ * - `size`: key count of THIS specific object (-1 for merged shapes)
+ * - `minSize`/`maxSize`: range of key counts seen when merging multiple maps
+ * - `keys`: a string scalar with the keys' shared format and the first few keys as examples
+ *   (a JavaScript Map's keys can be of any shape)
+ * - `values`: merged shape of the sampled values
+ * - `className`: `Map` for a JavaScript Map rather than an object (only with the `jsTypes` option)
+ * - `count`: number of maps sampled (only with the `frequencies` option)
+ */
+export type MapShape = {
+  kind: "map";
+  size: number;
+  minSize?: number;
+  maxSize?: number;
+  keys: Shape;
+  values: Shape;
+  className?: string;
+  count?: number;
+};
+
+/**
+ * A reference back to an object or array that contains it — a cycle in
+ * in-process data — by the jq path of that ancestor: `<circular .parent>`
+ */
+export type CircularShape = {
+  kind: "circular";
+  path: string;
+  /** Number of values sampled (only with the `frequencies` option) */
+  count?: number;
+};
+
+/**
+ * What lies past maxDepth, not looked into — so a cut subtree isn't mistaken
+ * for an empty object or an array of nulls.
+ *
+ * - `cut`: "keys" in place of an object at the depth limit, rendered `{...}`;
+ *   "elements" as the children of an array at the depth limit, rendered
+ *   `Array(N) of ...`
+ * - `size`: how many keys or elements were cut (-1 for merged shapes, and
+ *   when parsed from a thumbnail that doesn't say)
+ * - `minSize`/`maxSize`: range of sizes seen when merging
+ * - `className`: class of the object cut off, as on ObjectShape (only with the `jsTypes` option)
+ * - `count`: number of values sampled (only with the `frequencies` option)
+ */
+export type TruncatedShape = {
+  kind: "truncated";
+  cut: "keys" | "elements";
+  size: number;
+  minSize?: number;
+  maxSize?: number;
+  className?: string;
+  count?: number;
+};
+
+/**
+ * Another node of the nearest enclosing recursive object (`ObjectShape.recursive`),
+ * rendered as that object's name
+ */
+export type SelfShape = {
+  kind: "self";
+  /** Number of values sampled (only with the `frequencies` option) */
+  count?: number;
+};
+
+export type Shape =
+  | ScalarShape
+  | ArrayShape
+  | ObjectShape
+  | MapShape
+  | VariedShape
+  | CircularShape
+  | TruncatedShape
+  | SelfShape;
+
+/** A way a value fails to match a shape, from `checkShape` */
+export type ShapeViolation = {
+  /** jq path of the offending value, e.g. `.results[17].price` */
+  path: string;
+  /** What's wrong, e.g. `expected number, got string` */
+  message: string;
+};
+
+/**
+ * One difference between two shapes, from `diffShapes`.
+ *
+ * - `added` / `removed`: a key appeared / disappeared
+ * - `optional` / `required`: a key became optional / required
+ * - `type`: the types a value can take changed, e.g. `number` → `number | null`
+ * - `length`: the recorded length range of an array changed
+ */
+export type ShapeChange = {
+  /** jq path of the changed value, e.g. `.results[].price` */
+  path: string;
+  kind: "added" | "removed" | "optional" | "required" | "type" | "length";
+  /** true if data of the new shape can break code written against the old one */
+  breaking: boolean;
+  /** Type or length range before the change (absent for added keys) */
+  before?: string;
+  /** Type or length range after the change (absent for removed keys) */
+  after?: string;
+};
+
+/** A line of NDJSON input that isn't valid JSON */
+export type MalformedLine = {
+  /** 1-based line number */
+  line: number;
+  /** Why it didn't parse: the JSON.parse error message */
+  message: string;
 };
 
-export type Shape = ScalarShape | ArrayShape | ObjectShape | VariedShape;
+/** What `inferShapeFromLines` / `inferShapeFromLineStream` found in NDJSON input */
+export type LinesResult = {
+  /** Shape of the records, one per well-formed line: `Lines(N) of {...}` */
+  shape: ArrayShape;
+  /** The first malformed lines, in order (at most 100) */
+  malformed: MalformedLine[];
+  /** Number of malformed lines, including those not listed */
+  malformedCount: number;
+};
 
 export type FieldShape = {
   shape: Shape;
   /** true if this key was absent in some sampled elements */
   optional: boolean;
+  /** Number of sampled objects that have this key (only with the `frequencies` option) */
+  count?: number;
 };
 
+/**
+ * How arrays longer than sampleSize are sampled: a built-in strategy, or a
+ * function returning the indices to sample (see `ThumbOptions.sampling`)
+ */
+export type Sampling =
+  | "even"
+  | "first-last"
+  | "head-tail"
+  | "random"
+  | ((length: number, sampleSize: number) => number[]);
+
 export interface ThumbOptions {
   /** Max array elements to sample for type inference (default: 100) */
   sampleSize?: number;
+  /**
+   * Which elements of arrays longer than sampleSize are sampled (default: "even").
+   * Map values and NDJSON lines are sampled the same way.
+   * - "even": evenly spaced
+   * - "first-last": evenly spaced, always including the first and last element
+   * - "head-tail": a third of the sample from each end, the rest evenly spaced in between
+   * - "random": pseudo-random, drawn from `seed`
+   * - a function `(length, sampleSize) => indices` (not for streamed input)
+   */
+  sampling?: Sampling;
+  /** Seed of the "random" sampling strategy: the same seed picks the same elements (default: 1) */
+  seed?: number;
   /** Max nesting depth before collapsing to `{...}` / `...` (default: 8) */
   maxDepth?: number;
+  /**
+   * Record up to this many distinct sampled values per string/number leaf and
+   * show them after the type: `string ("active", "paused", …)` (default: 0, off)
+   */
+  examples?: number;
+  /**
+   * Detect string formats (dates, UUIDs, URLs, emails, numeric strings) and
+   * render them as `string<date-time>` (default: true)
+   */
+  formats?: boolean;
+  /**
+   * Render scalars with at most this many distinct sampled values as a literal
+   * union — `"open" | "closed"`, `1 | 2 | 3`, `true` — provided some value was
+   * seen more than once (default: 0, off)
+   */
+  enums?: number;
+  /**
+   * Gather value statistics on scalars — integer vs float and min/max for
+   * numbers, min/max length for strings — rendered as `integer(1..502)` or
+   * `string(len 3-40)` (default: false)
+   */
+  stats?: boolean;
+  /**
+   * Count how many sampled objects have each key and how many sampled values
+   * each variant of a union describes, and render them as percentages:
+   * `inStock?(62%): boolean`, `number(80%) | string(20%)` (default: false)
+   */
+  frequencies?: boolean;
+  /**
+   * Split arrays of objects into a tagged union when a string key's value
+   * determines the other keys: `{type: "click", x: number} | {type: "buy", sku: string}`
+   * (default: true)
+   */
+  taggedUnions?: boolean;
+  /**
+   * Treat objects with many generated-looking keys (IDs, dates, numbers) and
+   * values of one shape as dictionaries: `Map(2311) of string ("user_1", …) → {...}`
+   * (default: true)
+   */
+  maps?: boolean;
+  /**
+   * Describe tree-shaped data — comment threads, file trees, ASTs — as one
+   * recursive type: `Node = {name: string, children: Array(0-12) of Node}`
+   * (default: true)
+   */
+  recursion?: boolean;
+  /**
+   * Describe JavaScript values JSON has no type for by what they are: `Date`,
+   * `Map(N) of K → V`, `Set(N) of T`, `Uint8Array(N) of number`, `undefined`,
+   * `function`, `symbol`, and class instances as `Point {x: number}`
+   * (default: false). Without it values are described the way JSON.stringify
+   * writes them: by what their toJSON method returns (a Date is a
+   * `string<date-time>`), with keys holding undefined, functions or symbols
+   * left out. A bigint is `bigint` either way.
+   */
+  jsTypes?: boolean;
+  /**
+   * Width the thumbnail is laid out to (default: 80). An object or union goes on
+   * one line if it fits, otherwise it breaks: an object's keys one per line,
+   * a union's variants one per line after `| `. Lines can still run over when
+   * a single key and its type don't fit.
+   */
+  maxLineWidth?: number;
+  /**
+   * Describe an object that appears more than once — an `author`, `editor`
+   * and `assignee` that are all the same user — once, as a named definition
+   * above the thumbnail, and refer to it by name (default: false):
+   * `User = {id: number, login: string}`, then `{author: User, editor: User}`.
+   * Named after the key it first appears under.
+   */
+  definitions?: boolean;
+  /**
+   * Max size of the rendered thumbnail (default: unlimited). When the full
+   * rendering is larger, the deepest and widest subtrees are progressively
+   * collapsed to markers like `{...12 keys}` until it fits.
+   */
+  budget?: number;
+  /** Unit of `budget`: characters, or tokens estimated at ~4 chars each (default: "chars") */
+  budgetUnit?: "chars" | "tokens";
+  /**
+   * Output format (default: "thumb"). "paths" lists every leaf as a jq path
+   * with its type, one per line — see `jqPaths`. `budget` doesn't apply to it.
+   */
+  mode?: "thumb" | "paths";
 }
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
 const DEFAULT_SAMPLE_SIZE = 100;
-const DEFAULT_MAX_DEPTH = 8;
+const DEFAULT_SEED = 1;
+const DEFAULT_MAX_LINE_WIDTH = 80;
+const DEFAULT_EXAMPLES = 0;
+const DEFAULT_ENUMS = 0;
+/** Most variants a tagged union may have before it is folded into one object */
+const MAX_TAGGED_VARIANTS = 8;
+/** Example strings longer than this are cut with … */
+const MAX_EXAMPLE_LENGTH = 24;
+/** Fewest keys an object needs to be considered a map */
+const MIN_MAP_KEYS = 5;
+/** Keys kept as examples on a map */
+const MAP_EXAMPLE_KEYS = 3;
+/** Malformed NDJSON lines listed in a LinesResult */
+const MAX_MALFORMED_LINES = 100;
+/** Fewest keys an object needs to be hoisted into a definition */
+const MIN_DEFINITION_KEYS = 2;
+
+/** Checked in order; the first match wins */
+const STRING_FORMATS: Array<[StringFormat, RegExp]> = [
+  ["date-time", /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/],
+  ["date", /^\d{4}-\d{2}-\d{2}$/],
+  ["uuid", /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ["url", /^[a-z][a-z0-9+.-]*:\/\/[^\s]+$/i],
+  ["email", /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ["numeric", /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/],
+];
+
+/** Key names that look generated rather than chosen; any match will do */
+const GENERATED_KEYS: RegExp[] = [
+  /^-?\d+(\.\d+)?$/, // 42, 2024
+  /^\d{4}-\d{2}(-\d{2})?([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/, // 2024-01, 2024-01-01T12:00Z
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, // UUID
+  /^[A-Za-z]*[_:.-]?\d+$/, // user_123, item42
+  /^(?=.*\d)[0-9a-f]{8,}$/i, // hex hash
+  /^[A-Za-z]+[_-](?=[A-Za-z]*\d)[A-Za-z0-9]{6,}$/, // cus_9s8f7g6h
+];
+
+// ─── Inference Context ───────────────────────────────────────────────────────
+
+/** Limits that merging has to respect so merged shapes stay bounded */
+interface MergeContext {
+  /** Max distinct example values kept per scalar leaf */
+  examples: number;
+  /** Max distinct values tracked per scalar leaf for enum detection */
+  enums: number;
+  /** Detect string formats — of values, and of map keys when objects merge into maps */
+  formats: boolean;
+}
+
+/** Settings for one inference pass, resolved from ThumbOptions */
+interface InferContext extends MergeContext {
+  sampleSize: number;
+  sampling: Sampling;
+  seed: number;
+  maxDepth: number;
+  stats: boolean;
+  frequencies: boolean;
+  taggedUnions: boolean;
+  recursion: boolean;
+  maps: boolean;
+  jsTypes: boolean;
+  /** Objects and arrays being inferred, by jq path: seeing one again inside itself is a cycle */
+  ancestors: Map<object, string>;
+  /** Recursive objects being checked against, innermost last: what a `self` shape stands for */
+  nodes: ObjectShape[];
+}
+
+function createInferContext(options?: ThumbOptions): InferContext {
+  return {
+    sampleSize: options?.sampleSize ?? DEFAULT_SAMPLE_SIZE,
+    sampling: options?.sampling ?? "even",
+    seed: options?.seed ?? DEFAULT_SEED,
+    maxDepth: options?.maxDepth ?? DEFAULT_MAX_DEPTH,
+    examples: options?.examples ?? DEFAULT_EXAMPLES,
+    enums: options?.enums ?? DEFAULT_ENUMS,
+    formats: options?.formats ?? true,
+    stats: options?.stats ?? false,
+    frequencies: options?.frequencies ?? false,
+    taggedUnions: options?.taggedUnions ?? true,
+    maps: options?.maps ?? true,
+    recursion: options?.recursion ?? true,
+    jsTypes: options?.jsTypes ?? false,
+    ancestors: new Map(),
+    nodes: [],
+  };
+}
+
+/** Settings for a diff, and the recursive objects enclosing the shapes compared on each side */
+interface DiffContext extends InferContext {
+  /** Recursive objects around the old shapes, innermost last: what an old `self` stands for */
+  before: ObjectShape[];
+  /** Recursive objects around the new shapes, innermost last */
+  after: ObjectShape[];
+}
 
 // ─── Shape Equality ──────────────────────────────────────────────────────────
 
@@ -73,10 +472,11 @@ function shapesEqual(a: Shape, b: Shape): boolean {
       return a.type === (b as ScalarShape).type;
 
     case "array":
-      return shapesEqual(a.children, (b as ArrayShape).children);
+      return a.className === (b as ArrayShape).className && shapesEqual(a.children, (b as ArrayShape).children);
 
     case "object": {
       const bb = b as ObjectShape;
+      if (a.className !== bb.className || !a.recursive !== !bb.recursive) return false;
       const aKeys = Object.keys(a.keys).sort();
       const bKeys = Object.keys(bb.keys).sort();
       if (aKeys.length !== bKeys.length) return false;
@@ -87,11 +487,23 @@ function shapesEqual(a: Shape, b: Shape): boolean {
       return true;
     }
 
+    case "map":
+      return a.className === (b as MapShape).className && shapesEqual(a.values, (b as MapShape).values);
+
     case "varied": {
       const bb = b as VariedShape;
       if (a.variants.length !== bb.variants.length) return false;
       return a.variants.every(av => bb.variants.some(bv => shapesEqual(av, bv)));
     }
+
+    case "circular":
+      return a.path === (b as CircularShape).path;
+
+    case "truncated":
+      return a.cut === (b as TruncatedShape).cut && a.className === (b as TruncatedShape).className;
+
+    case "self":
+      return true;
   }
 }
 
@@ -107,35 +519,173 @@ function shapesEqual(a: Shape, b: Shape): boolean {
  * - Different scalar types → varied with both
  * - Two objects → union keys, recurse shared, mark missing-from-one as optional
  * - Two arrays → merge children shapes, combine length ranges
+ * - Two maps → merge value shapes, combine size ranges; an object whose keys
+ *   all look generated merges into a map as one
+ * - Circular references to the same ancestor → kept as one
+ * - Two values cut at maxDepth → combine size ranges; an empty object merges
+ *   with an object cut there as one cut with no keys
+ * - Two references to the enclosing recursive object → kept as one
  * - Incompatible kinds → varied
  * - Anything + varied → fold into varied's variant list (deduplicated)
  */
-function mergeShapes(a: Shape, b: Shape): Shape {
+function mergeShapes(a: Shape, b: Shape, ctx: MergeContext): Shape {
   // Handle varied on either side first
   if (a.kind === "varied" || b.kind === "varied") {
-    return mergeWithVaried(a, b);
+    return mergeWithVaried(a, b, ctx);
   }
 
   // Same kind
   if (a.kind === b.kind) {
     switch (a.kind) {
       case "scalar":
-        if (a.type === (b as ScalarShape).type) return a;
+        if (a.type === (b as ScalarShape).type) return mergeScalarShapes(a, b as ScalarShape, ctx);
         return { kind: "varied", variants: [a, b as ScalarShape] };
 
       case "object":
-        return mergeObjectShapes(a, b as ObjectShape);
+        return mergeObjectShapes(a, b as ObjectShape, ctx);
 
       case "array":
-        return mergeArrayShapes(a, b as ArrayShape);
+        return mergeArrayShapes(a, b as ArrayShape, ctx);
+
+      case "map":
+        return mergeMapShapes(a, b as MapShape, ctx);
+
+      case "circular":
+        if (a.path === (b as CircularShape).path) return mergeCircularShapes(a, b as CircularShape);
+        return { kind: "varied", variants: [a, b as CircularShape] };
+
+      case "truncated":
+        if (a.cut === (b as TruncatedShape).cut) return mergeTruncatedShapes(a, b as TruncatedShape);
+        return { kind: "varied", variants: [a, b as TruncatedShape] };
+
+      case "self":
+        return mergeSelfShapes(a, b as SelfShape);
     }
   }
 
+  // A map and an object that could have been one
+  if (a.kind === "map" && b.kind === "object") {
+    const bMap = objectAsMap(b, ctx);
+    if (bMap) return mergeMapShapes(a, bMap, ctx);
+  }
+  if (a.kind === "object" && b.kind === "map") {
+    const aMap = objectAsMap(a, ctx);
+    if (aMap) return mergeMapShapes(aMap, b, ctx);
+  }
+
+  // An empty object and one cut at maxDepth: the empty one had nothing to cut
+  if (a.kind === "truncated" && a.cut === "keys" && b.kind === "object") {
+    const bCut = emptyObjectAsCut(b);
+    if (bCut) return mergeTruncatedShapes(a, bCut);
+  }
+  if (a.kind === "object" && b.kind === "truncated" && b.cut === "keys") {
+    const aCut = emptyObjectAsCut(a);
+    if (aCut) return mergeTruncatedShapes(aCut, b);
+  }
+
   // Different kinds → varied
   return { kind: "varied", variants: [a, b] };
 }
 
-function mergeObjectShapes(a: ObjectShape, b: ObjectShape): ObjectShape {
+/** Add up the counts of two merged shapes or fields, if both were counted (the `frequencies` option) */
+function addCounts(merged: { count?: number }, a: { count?: number }, b: { count?: number }): void {
+  if (a.count !== undefined && b.count !== undefined) merged.count = a.count + b.count;
+}
+
+/** Two references to the same ancestor */
+function mergeCircularShapes(a: CircularShape, b: CircularShape): CircularShape {
+  const merged: CircularShape = { kind: "circular", path: a.path };
+  addCounts(merged, a, b);
+  return merged;
+}
+
+/** Two references to the enclosing recursive object */
+function mergeSelfShapes(a: SelfShape, b: SelfShape): SelfShape {
+  const merged: SelfShape = { kind: "self" };
+  addCounts(merged, a, b);
+  return merged;
+}
+
+/** Two values cut at maxDepth: the range of their sizes, like array lengths — unless either size is unknown */
+function mergeTruncatedShapes(a: TruncatedShape, b: TruncatedShape): TruncatedShape {
+  const merged: TruncatedShape = { kind: "truncated", cut: a.cut, size: -1 };
+  const unknown = (t: TruncatedShape) => t.size === -1 && t.minSize === undefined;
+  if (!unknown(a) && !unknown(b)) {
+    merged.minSize = Math.min(a.minSize ?? a.size, b.minSize ?? b.size);
+    merged.maxSize = Math.max(a.maxSize ?? a.size, b.maxSize ?? b.size);
+  }
+  keepClassName(merged, a, b);
+  addCounts(merged, a, b);
+  return merged;
+}
+
+/** A merged collection or object keeps its class only if both sides have it (the `jsTypes` option) */
+function keepClassName(merged: { className?: string }, a: { className?: string }, b: { className?: string }): void {
+  if (a.className !== undefined && a.className === b.className) merged.className = a.className;
+}
+
+/** Does this scalar carry anything recorded from its values, beyond type and format? */
+function hasValueDetail(shape: ScalarShape): boolean {
+  return (
+    shape.literal !== undefined ||
+    shape.examples !== undefined ||
+    shape.count !== undefined ||
+    shape.integer !== undefined ||
+    shape.minLength !== undefined
+  );
+}
+
+/**
+ * Merge two scalars of the same type. A format or literal survives only if
+ * both sides agree on it (otherwise it degrades to a plain string); examples and
+ * distinct values are combined, and values are dropped once there are more
+ * than the enum threshold; stats are widened to cover both.
+ */
+function mergeScalarShapes(a: ScalarShape, b: ScalarShape, ctx: MergeContext): ScalarShape {
+  if (a.format === b.format && !hasValueDetail(a) && !hasValueDetail(b)) return a;
+
+  const merged: ScalarShape = { kind: "scalar", type: a.type };
+  if (a.format !== undefined && a.format === b.format) merged.format = a.format;
+  if (a.literal !== undefined && a.literal === b.literal) merged.literal = a.literal;
+
+  if (a.integer !== undefined && b.integer !== undefined) {
+    merged.integer = a.integer && b.integer;
+    merged.min = Math.min(a.min as number, b.min as number);
+    merged.max = Math.max(a.max as number, b.max as number);
+  }
+  if (a.minLength !== undefined && b.minLength !== undefined) {
+    merged.minLength = Math.min(a.minLength, b.minLength);
+    merged.maxLength = Math.max(a.maxLength as number, b.maxLength as number);
+  }
+
+  if (a.count !== undefined || b.count !== undefined) {
+    merged.count = (a.count ?? 0) + (b.count ?? 0);
+    // Either side having lost its values means there were already too many
+    if (a.values && b.values) {
+      const values = [...a.values];
+      for (const v of b.values) {
+        if (!values.includes(v)) values.push(v);
+      }
+      if (values.length <= ctx.enums) merged.values = values;
+    }
+  }
+
+  if (a.examples || b.examples) {
+    const examples = [...(a.examples ?? [])];
+    let more = (a.moreExamples ?? false) || (b.moreExamples ?? false);
+    for (const v of b.examples ?? []) {
+      if (examples.includes(v)) continue;
+      if (examples.length < ctx.examples) examples.push(v);
+      else more = true;
+    }
+    merged.examples = examples;
+    if (more) merged.moreExamples = true;
+  }
+
+  return merged;
+}
+
+function mergeObjectShapes(a: ObjectShape, b: ObjectShape, ctx: MergeContext): ObjectShape {
   const allKeys = new Set([...Object.keys(a.keys), ...Object.keys(b.keys)]);
   const merged: Record<string, FieldShape> = {};
 
@@ -147,22 +697,28 @@ function mergeObjectShapes(a: ObjectShape, b: ObjectShape): ObjectShape {
       // Present in both: merge value shapes.
       // Stays non-optional only if it was non-optional in both inputs.
       merged[key] = {
-        shape: mergeShapes(a.keys[key].shape, b.keys[key].shape),
-        optional: a.keys[key].optional && b.keys[key].optional,
+        shape: mergeShapes(a.keys[key].shape, b.keys[key].shape, ctx),
+        optional: a.keys[key].optional || b.keys[key].optional,
       };
+      addCounts(merged[key], a.keys[key], b.keys[key]);
     } else if (inA) {
       // Only in a → mark optional (missing from b's samples)
-      merged[key] = { shape: a.keys[key].shape, optional: true };
+      merged[key] = { ...a.keys[key], optional: true };
     } else {
       // Only in b → mark optional (missing from a's samples)
-      merged[key] = { shape: b.keys[key].shape, optional: true };
+      merged[key] = { ...b.keys[key], optional: true };
     }
   }
 
-  return { kind: "object", keys: merged };
+  const shape: ObjectShape = { kind: "object", keys: merged };
+  keepClassName(shape, a, b);
+  // The self shapes of either side now stand for the merged object
+  if (a.recursive || b.recursive) shape.recursive = true;
+  addCounts(shape, a, b);
+  return shape;
 }
 
-function mergeArrayShapes(a: ArrayShape, b: ArrayShape): ArrayShape {
+function mergeArrayShapes(a: ArrayShape, b: ArrayShape, ctx: MergeContext): ArrayShape {
   // Compute effective min/max from both sides.
   // If no range info exists, the single `length` value IS the min and max.
   const aMin = a.minLength ?? a.length;
@@ -186,144 +742,483 @@ function mergeArrayShapes(a: ArrayShape, b: ArrayShape): ArrayShape {
   } else if (bEmpty) {
     children = a.children;
   } else {
-    children = mergeShapes(a.children, b.children);
+    children = mergeShapes(a.children, b.children, ctx);
   }
 
-  return {
+  const merged: ArrayShape = {
     kind: "array",
     length: -1, // merged — no single true length
     minLength,
     maxLength,
     children,
   };
+  keepClassName(merged, a, b);
+  addCounts(merged, a, b);
+  return merged;
+}
+
+function mergeMapShapes(a: MapShape, b: MapShape, ctx: MergeContext): MapShape {
+  const minSize = Math.min(a.minSize ?? a.size, b.minSize ?? b.size);
+  const maxSize = Math.max(a.maxSize ?? a.size, b.maxSize ?? b.size);
+
+  // As with arrays, an empty map has no keys or values to contribute
+  let merged: MapShape;
+  if (isEmptyMap(a)) {
+    merged = { kind: "map", size: -1, minSize, maxSize, keys: b.keys, values: b.values };
+  } else if (isEmptyMap(b)) {
+    merged = { kind: "map", size: -1, minSize, maxSize, keys: a.keys, values: a.values };
+  } else {
+    const keys = mergeMapKeys(a.keys, b.keys, ctx);
+    merged = { kind: "map", size: -1, minSize, maxSize, keys, values: mergeShapes(a.values, b.values, ctx) };
+  }
+  keepClassName(merged, a, b);
+  addCounts(merged, a, b);
+  return merged;
+}
+
+/**
+ * Combine the key descriptions of two maps: shared format, first few example
+ * keys. Keys other than strings (a JavaScript Map's) merge like any shape.
+ */
+function mergeMapKeys(a: Shape, b: Shape, ctx: MergeContext): Shape {
+  if (a.kind !== "scalar" || b.kind !== "scalar" || a.type !== "string" || b.type !== "string") {
+    return mergeShapes(a, b, ctx);
+  }
+  const keys: ScalarShape = { kind: "scalar", type: "string" };
+  if (a.format !== undefined && a.format === b.format) keys.format = a.format;
+
+  const examples = [...(a.examples ?? [])];
+  let more = (a.moreExamples ?? false) || (b.moreExamples ?? false);
+  for (const key of b.examples ?? []) {
+    if (examples.includes(key)) continue;
+    if (examples.length < MAP_EXAMPLE_KEYS) examples.push(key);
+    else more = true;
+  }
+  if (examples.length > 0) keys.examples = examples;
+  if (more) keys.moreExamples = true;
+  return keys;
 }
 
 /**
  * Merge shapes where at least one is a varied.
  * Collects all variants, deduplicates scalars, and merges
  * compatible complex structures (objects with objects, arrays with arrays).
+ * Tagged unions stay tagged when the other side's objects carry the same tag
+ * key (or it has no objects); their variants merge tag by tag.
  */
-function mergeWithVaried(a: Shape, b: Shape): Shape {
+function mergeWithVaried(a: Shape, b: Shape, ctx: MergeContext): Shape {
   const aVariants = a.kind === "varied" ? a.variants : [a];
   const bVariants = b.kind === "varied" ? b.variants : [b];
+  let discriminator = sharedDiscriminator(a, b);
 
-  const variants: Shape[] = [];
+  let variants: Shape[] = [];
   for (const v of [...aVariants, ...bVariants]) {
-    addToVariants(variants, v);
+    addToVariants(variants, v, ctx, discriminator);
+  }
+
+  // Too many tags to be a useful union → fold the objects together
+  if (discriminator && variants.filter(v => v.kind === "object").length > MAX_TAGGED_VARIANTS) {
+    discriminator = undefined;
+    const folded: Shape[] = [];
+    for (const v of variants) addToVariants(folded, v, ctx);
+    variants = folded;
   }
 
   if (variants.length === 1) return variants[0];
-  return { kind: "varied", variants };
+  const merged: VariedShape = { kind: "varied", variants };
+  if (discriminator) merged.discriminator = discriminator;
+  return merged;
+}
+
+/**
+ * The discriminator a merge of a and b can keep: the one a tagged side uses,
+ * provided every object on the other side is tagged by the same key.
+ */
+function sharedDiscriminator(a: Shape, b: Shape): string | undefined {
+  const key =
+    (a.kind === "varied" ? a.discriminator : undefined) ??
+    (b.kind === "varied" ? b.discriminator : undefined);
+  if (!key) return undefined;
+
+  for (const side of [a, b]) {
+    const variants = side.kind === "varied" ? side.variants : [side];
+    for (const v of variants) {
+      if (v.kind === "object" && tagOf(v, key) === undefined) return undefined;
+    }
+  }
+  return key;
 }
 
 /**
  * Add a shape to a variants list, merging with compatible existing entries:
- * - Duplicate scalars → deduplicated (same kind + same type)
- * - Objects merge with existing objects (union keys, optional tracking)
+ * - Duplicate scalars → deduplicated (same kind + same type), formats and examples combined
+ * - Objects merge with existing objects (union keys, optional tracking) —
+ *   in a tagged union, only with the object that has the same tag
  * - Arrays merge with existing arrays (merge children + length ranges)
+ * - Maps merge with existing maps, and with objects whose keys all look generated
+ * - Circular references to the same ancestor → deduplicated
+ * - Values cut at maxDepth merge with each other (keys with keys, elements with
+ *   elements), and with empty objects
  * - Everything else → added as a new variant
  */
-function addToVariants(variants: Shape[], shape: Shape): void {
+function addToVariants(
+  variants: Shape[],
+  shape: Shape,
+  ctx: MergeContext,
+  discriminator?: string
+): void {
   for (let i = 0; i < variants.length; i++) {
     const existing = variants[i];
 
-    // Exact scalar match → skip (deduplicate)
+    // Exact scalar match → deduplicate
     if (existing.kind === "scalar" && shape.kind === "scalar" && existing.type === shape.type) {
+      variants[i] = mergeScalarShapes(existing, shape, ctx);
       return;
     }
 
-    // Merge objects together (keeps one object variant with all keys)
+    // Merge objects together (keeps one object variant with all keys, or one per tag)
     if (existing.kind === "object" && shape.kind === "object") {
-      variants[i] = mergeObjectShapes(existing, shape);
+      if (discriminator && tagOf(existing, discriminator) !== tagOf(shape, discriminator)) continue;
+      variants[i] = mergeObjectShapes(existing, shape, ctx);
       return;
     }
 
     // Merge arrays together (merge children + length ranges)
     if (existing.kind === "array" && shape.kind === "array") {
-      variants[i] = mergeArrayShapes(existing, shape);
+      variants[i] = mergeArrayShapes(existing, shape, ctx);
+      return;
+    }
+
+    if (existing.kind === "circular" && shape.kind === "circular" && existing.path === shape.path) {
+      variants[i] = mergeCircularShapes(existing, shape);
+      return;
+    }
+
+    if (existing.kind === "truncated" && shape.kind === "truncated" && existing.cut === shape.cut) {
+      variants[i] = mergeTruncatedShapes(existing, shape);
       return;
     }
+
+    if (existing.kind === "self" && shape.kind === "self") {
+      variants[i] = mergeSelfShapes(existing, shape);
+      return;
+    }
+
+    // An empty object and an object cut at maxDepth merge as two cut objects
+    if (
+      (existing.kind === "truncated" && shape.kind === "object") ||
+      (existing.kind === "object" && shape.kind === "truncated")
+    ) {
+      const merged = mergeShapes(existing, shape, ctx);
+      if (merged.kind === "truncated") {
+        variants[i] = merged;
+        return;
+      }
+    }
+
+    // Merge maps together, and objects that could have been maps into them
+    if (existing.kind === "map" || shape.kind === "map") {
+      const merged = mergeShapes(existing, shape, ctx);
+      if (merged.kind === "map") {
+        variants[i] = merged;
+        return;
+      }
+    }
   }
 
   // No compatible match — add as new variant
   variants.push(shape);
 }
 
-// ─── Evenly-Spaced Sampling ─────────────────────────────────────────────────
+// ─── Sampling ────────────────────────────────────────────────────────────────
 
 /**
- * Pick up to sampleSize indices from an array of given length,
- * evenly spaced across the array. Deterministic (no randomness).
+ * Pick up to sampleSize indices from an array of given length, in ascending
+ * order, following ctx.sampling. Arrays no longer than sampleSize are
+ * sampled completely, whatever the strategy. Deterministic: "random" draws
+ * from a PRNG seeded with ctx.seed.
+ *
+ * For length=1000, sampleSize=100:
+ * - "even": 0, 10, 20, ... 990
+ * - "first-last": 0, 10, 20, ... 988, 999
+ * - "head-tail": 0-33, 32 evenly spaced in between, 966-999
  *
- * For length=1000, sampleSize=100: picks 0, 10, 20, ... 990
+ * @throws RangeError if a sampling function returns no indices, or something
+ *   other than indices of the array
  */
-function sampleIndices(length: number, sampleSize: number): number[] {
+function sampleIndices(length: number, ctx: InferContext): number[] {
+  const { sampleSize, sampling } = ctx;
   if (length <= sampleSize) {
     return Array.from({ length }, (_, i) => i);
   }
+
+  if (typeof sampling === "function") {
+    const indices = sampling(length, sampleSize);
+    const bad = indices.find(i => !Number.isInteger(i) || i < 0 || i >= length);
+    if (bad !== undefined) {
+      throw new RangeError(`sampling returned ${bad}, which is not an index of an array of length ${length}`);
+    }
+    if (indices.length === 0) throw new RangeError(`sampling picked no elements of an array of length ${length}`);
+    return [...new Set(indices)].sort((a, b) => a - b);
+  }
+
+  switch (sampling) {
+    case "even":
+      return evenlySpaced(0, length, sampleSize);
+
+    case "first-last":
+      if (sampleSize === 1) return [0];
+      return Array.from({ length: sampleSize }, (_, i) => Math.floor((i * (length - 1)) / (sampleSize - 1)));
+
+    case "head-tail": {
+      const { head, tail, middle } = headTailSizes(sampleSize);
+      return [
+        ...Array.from({ length: head }, (_, i) => i),
+        ...evenlySpaced(head, length - tail, middle),
+        ...Array.from({ length: tail }, (_, i) => length - tail + i),
+      ];
+    }
+
+    case "random": {
+      // Floyd's algorithm: sampleSize distinct indices in sampleSize draws
+      const random = seededRandom(ctx.seed);
+      const picked = new Set<number>();
+      for (let j = length - sampleSize; j < length; j++) {
+        const r = Math.floor(random() * (j + 1));
+        picked.add(picked.has(r) ? j : r);
+      }
+      return [...picked].sort((a, b) => a - b);
+    }
+  }
+}
+
+/** `count` indices evenly spaced over [start, end) */
+function evenlySpaced(start: number, end: number, count: number): number[] {
   const indices: number[] = [];
-  for (let i = 0; i < sampleSize; i++) {
-    indices.push(Math.floor((i * length) / sampleSize));
+  for (let i = 0; i < count; i++) {
+    indices.push(start + Math.floor((i * (end - start)) / count));
   }
   return indices;
 }
 
+/** How "head-tail" splits a sample: a third from each end, the rest in between */
+function headTailSizes(sampleSize: number): { head: number; tail: number; middle: number } {
+  const head = Math.ceil(sampleSize / 3);
+  const tail = Math.min(sampleSize - head, Math.ceil(sampleSize / 3));
+  return { head, tail, middle: sampleSize - head - tail };
+}
+
+/** mulberry32: a small PRNG giving the same numbers in [0, 1) for the same seed */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 // ─── Shape Inference ─────────────────────────────────────────────────────────
 
 /**
  * Infer the structural shape of any JSON value.
  *
  * Walks the data recursively, sampling large arrays for efficiency,
- * and produces a Shape AST describing the type structure.
+ * and produces a Shape AST describing the type structure. References back
+ * to an enclosing object or array aren't followed but described as circular.
  *
- * @param value - Any JSON-compatible value
- * @param options - sampleSize (default 100), maxDepth (default 8)
+ * @param value - Any JSON-compatible value, or in-process data (see `jsTypes`)
+ * @param options - sampleSize (default 100), maxDepth (default 8), examples (default 0),
+ *   enums (default 0), stats (default false)
  * @returns Shape AST
  */
 export function inferShape(value: unknown, options?: ThumbOptions): Shape {
-  const sampleSize = options?.sampleSize ?? DEFAULT_SAMPLE_SIZE;
-  const maxDepth = options?.maxDepth ?? DEFAULT_MAX_DEPTH;
-  return _inferShape(value, sampleSize, maxDepth, 0);
+  return _inferShape(value, createInferContext(options), 0, "");
+}
+
+/**
+ * @param path - jq path of the value, by which cycles refer back to it
+ */
+function _inferShape(value: unknown, ctx: InferContext, depth: number, path = ""): Shape {
+  value = ctx.jsTypes ? unboxed(value) : toJSONValue(value);
+
+  let shape: Shape;
+  if (typeof value === "object" && value !== null) {
+    const ancestor = ctx.ancestors.get(value);
+    if (ancestor !== undefined) {
+      shape = { kind: "circular", path: ancestor || "." };
+    } else {
+      ctx.ancestors.set(value, path);
+      try {
+        shape = inferValueShape(value, ctx, depth, path);
+      } finally {
+        ctx.ancestors.delete(value);
+      }
+    }
+  } else {
+    shape = inferValueShape(value, ctx, depth, path);
+  }
+  countOnce(shape, ctx);
+  return shape;
 }
 
-function _inferShape(
+function inferValueShape(
   value: unknown,
-  sampleSize: number,
-  maxDepth: number,
-  depth: number
-): Shape {
-  // null / undefined → scalar null
-  if (value === null || value === undefined) {
-    return { kind: "scalar", type: "null" };
+  ctx: InferContext,
+  depth: number,
+  path: string
+): ScalarShape | ArrayShape | ObjectShape | MapShape | TruncatedShape {
+  const type = typeOf(value, ctx.jsTypes);
+  switch (type) {
+    case "null":
+      return { kind: "scalar", type: "null" };
+
+    // Primitive scalars
+    case "string":
+      return withValue(inferStringShape(value as string, ctx), value as string, ctx);
+    case "number":
+      return withValue({ kind: "scalar", type: "number" }, value as number, ctx);
+    case "boolean":
+      return withValue({ kind: "scalar", type: "boolean" }, value as boolean, ctx);
+
+    // Values JSON has no type for
+    case "bigint":
+    case "undefined":
+    case "symbol":
+    case "function":
+    case "Date":
+      return { kind: "scalar", type };
+
+    case "array":
+      return _inferArrayShape(value as unknown[], ctx, depth, path);
+
+    // JavaScript collections (only with the jsTypes option)
+    case "Set":
+      return { ..._inferArrayShape([...(value as Set<unknown>)], ctx, depth, path), className: "Set" };
+    case "typed array":
+      return { ..._inferArrayShape(value as ArrayLike<unknown>, ctx, depth, path), className: classNameOf(value as object) };
+    case "Map":
+      return inferJsMapShape(value as Map<unknown, unknown>, ctx, depth, path);
+
+    // Objects (plain objects, and class instances)
+    case "object": {
+      const inferred = _inferObjectShape(value as Record<string, unknown>, ctx, depth, path);
+      const className = ctx.jsTypes ? classNameOf(value as object) : undefined;
+      const shape = inferred.kind === "map" || !className || className === "Object" ? inferred : { ...inferred, className };
+      return shape.kind === "object" && ctx.recursion ? foldRecursion(shape, ctx) : shape;
+    }
   }
+}
+
+/** With the `frequencies` option, a value or key seen once counts once; merging adds counts up */
+function countOnce(counted: { count?: number }, ctx: InferContext): void {
+  if (ctx.frequencies && counted.count === undefined) counted.count = 1;
+}
+
+/**
+ * What JSON.stringify writes in place of a value: what its toJSON method
+ * returns (a Date's ISO string), or the value itself, unboxed
+ */
+function toJSONValue(value: unknown): unknown {
+  if ((typeof value !== "object" || value === null) && typeof value !== "bigint") return value;
+  const toJSON = (value as { toJSON?: unknown }).toJSON;
+  if (typeof toJSON === "function") return toJSON.call(value, "");
+  return unboxed(value);
+}
+
+/** The primitive inside a boxed String, Number or Boolean */
+function unboxed(value: unknown): unknown {
+  if (value instanceof String || value instanceof Number || value instanceof Boolean) return value.valueOf();
+  return value;
+}
 
+/** Does JSON.stringify leave out an object key holding this value? */
+function isUnwritable(value: unknown): boolean {
+  return value === undefined || typeof value === "function" || typeof value === "symbol";
+}
+
+type ValueType =
+  | "null"
+  | "string"
+  | "number"
+  | "boolean"
+  | "bigint"
+  | "array"
+  | "object"
+  | "undefined"
+  | "symbol"
+  | "function"
+  | "Date"
+  | "Map"
+  | "Set"
+  | "typed array";
+
+/**
+ * The type of a value, as inference sees it. Without `jsTypes`, undefined,
+ * functions and symbols are null, as JSON.stringify writes them in arrays;
+ * with it they are types of their own, as are Dates, Maps, Sets and typed arrays.
+ */
+function typeOf(value: unknown, jsTypes: boolean): ValueType {
+  if (value === null) return "null";
   const t = typeof value;
+  if (t === "string" || t === "number" || t === "boolean" || t === "bigint") return t;
+  if (Array.isArray(value)) return "array";
+  if (t !== "object") return jsTypes ? (t as "undefined" | "symbol" | "function") : "null";
+  if (!jsTypes) return "object";
+  if (value instanceof Date) return "Date";
+  if (value instanceof Map) return "Map";
+  if (value instanceof Set) return "Set";
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) return "typed array";
+  return "object";
+}
 
-  // Primitive scalars
-  if (t === "string") return { kind: "scalar", type: "string" };
-  if (t === "number") return { kind: "scalar", type: "number" };
-  if (t === "boolean") return { kind: "scalar", type: "boolean" };
+/** The name of an object's class, if it has one: `Point`, `Uint8Array` */
+function classNameOf(value: object): string | undefined {
+  const proto: unknown = Object.getPrototypeOf(value);
+  if (proto === null) return undefined;
+  const name: unknown = (proto as { constructor?: { name?: unknown } }).constructor?.name;
+  return typeof name === "string" && name !== "" ? name : undefined;
+}
 
-  // Arrays
-  if (Array.isArray(value)) {
-    return _inferArrayShape(value, sampleSize, maxDepth, depth);
+function inferStringShape(value: string, ctx: InferContext): ScalarShape {
+  const shape: ScalarShape = { kind: "scalar", type: "string" };
+  if (ctx.formats) {
+    const format = formatOf(value);
+    if (format) shape.format = format;
   }
+  return shape;
+}
 
-  // Objects (plain objects)
-  if (t === "object") {
-    return _inferObjectShape(value as Record<string, unknown>, sampleSize, maxDepth, depth);
-  }
+/** The first string format the value matches */
+function formatOf(value: string): StringFormat | undefined {
+  return STRING_FORMATS.find(([, pattern]) => pattern.test(value))?.[0];
+}
 
-  // Fallback for exotic types (bigint, symbol, function, etc.)
-  return { kind: "scalar", type: "string" };
+/**
+ * Record what the stats / examples / enums options track about a scalar's
+ * value. Booleans make poor examples.
+ */
+function withValue(shape: ScalarShape, value: string | number | boolean, ctx: InferContext): ScalarShape {
+  if (ctx.examples > 0 && typeof value !== "boolean") shape.examples = [value];
+  if (ctx.enums > 0) {
+    shape.values = [value];
+    shape.count = 1;
+  }
+  if (ctx.stats && typeof value === "number") {
+    shape.integer = Number.isInteger(value);
+    shape.min = value;
+    shape.max = value;
+  }
+  if (ctx.stats && typeof value === "string") {
+    shape.minLength = value.length;
+    shape.maxLength = value.length;
+  }
+  return shape;
 }
 
-function _inferArrayShape(
-  arr: unknown[],
-  sampleSize: number,
-  maxDepth: number,
-  depth: number
-): ArrayShape {
+function _inferArrayShape(arr: ArrayLike<unknown>, ctx: InferContext, depth: number, path: string): ArrayShape {
   const len = arr.length;
 
   // Empty array — no children to describe
@@ -337,121 +1232,1615 @@ function _inferArrayShape(
 
   // At depth limit: record the length but don't recurse into children.
   // The renderer will show "Array(N) of ..." at this depth.
-  if (depth >= maxDepth) {
+  if (depth >= ctx.maxDepth) {
     return {
       kind: "array",
       length: len,
-      children: { kind: "scalar", type: "null" }, // sentinel
+      children: { kind: "truncated", cut: "elements", size: len },
     };
   }
 
   // Sample elements and infer their shapes
-  const indices = sampleIndices(len, sampleSize);
-  const shapes = indices.map(i => _inferShape(arr[i], sampleSize, maxDepth, depth + 1));
-
-  // Merge all sampled element shapes into one unified shape
-  let merged = shapes[0];
-  for (let i = 1; i < shapes.length; i++) {
-    merged = mergeShapes(merged, shapes[i]);
-  }
+  const indices = sampleIndices(len, ctx);
+  const elementPath = appendSegment(path, "[]");
+  const shapes = indices.map(i => _inferShape(arr[i], ctx, depth + 1, elementPath));
+  const strings = indices.map(i => stringFields(arr[i]));
 
   return {
     kind: "array",
     length: len,
-    children: merged,
+    children: mergeElementShapes(shapes, strings, ctx),
   };
 }
 
+/** The string-valued keys of a plain object, for tag detection */
+function stringFields(value: unknown): Record<string, string> | undefined {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const strings: Record<string, string> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (typeof v === "string") strings[key] = v;
+  }
+  return strings;
+}
+
+/**
+ * Merge sampled element shapes into one — or into a tagged union, when the
+ * elements are objects split by a discriminator.
+ *
+ * @param shapes - Shapes of the sampled elements, in order
+ * @param strings - String-valued keys of each sampled element (undefined for non-objects)
+ */
+function mergeElementShapes(
+  shapes: Shape[],
+  strings: Array<Record<string, string> | undefined>,
+  ctx: InferContext
+): Shape {
+  if (ctx.taggedUnions) {
+    const tagged = inferTaggedUnion(shapes, strings, ctx);
+    if (tagged) return tagged;
+  }
+
+  let merged = shapes[0];
+  for (let i = 1; i < shapes.length; i++) {
+    merged = mergeShapes(merged, shapes[i], ctx);
+  }
+  return merged;
+}
+
+// ─── Tagged Unions ───────────────────────────────────────────────────────────
+
+/**
+ * Look for a discriminator among sampled array elements: a key that every
+ * element has as a string, whose values split the elements into groups with
+ * different required keys — `{type: "click", x, y}` vs `{type: "purchase", sku}`.
+ *
+ * A key qualifies when:
+ * - every sampled element is an object with the key as a string
+ * - it splits the elements into 2..MAX_TAGGED_VARIANTS groups
+ * - some tag value repeats (one element per tag is no evidence of a pattern)
+ * - every two groups differ by a key one of them always has and the other
+ *   never does — not just by a key some elements of both have, which is
+ *   merely optional (`discount` on some USD orders and the one EUR order)
+ *
+ * The key with the fewest groups wins; ties go to the earlier key.
+ */
+function inferTaggedUnion(
+  shapes: Shape[],
+  strings: Array<Record<string, string> | undefined>,
+  ctx: InferContext
+): VariedShape | undefined {
+  if (shapes.length < 3) return undefined;
+  if (!shapes.every(s => s.kind === "object") || strings.some(s => s === undefined)) return undefined;
+  const objects = shapes as ObjectShape[];
+  const fields = strings as Array<Record<string, string>>;
+
+  let best: { key: string; groups: Map<string, ObjectShape[]> } | undefined;
+  for (const key of Object.keys(fields[0])) {
+    if (!fields.every(f => key in f)) continue;
+
+    const groups = new Map<string, ObjectShape[]>();
+    objects.forEach((o, i) => {
+      const tag = fields[i][key];
+      const group = groups.get(tag);
+      if (group) group.push(o);
+      else groups.set(tag, [o]);
+    });
+    if (groups.size < 2 || groups.size > MAX_TAGGED_VARIANTS || groups.size === objects.length) continue;
+
+    const keySets = [...groups.values()].map(group => ({
+      required: Object.keys(group[0].keys).filter(k => group.every(o => k in o.keys)),
+      present: new Set(group.flatMap(o => Object.keys(o.keys))),
+    }));
+    const differ = (a: (typeof keySets)[number], b: (typeof keySets)[number]) =>
+      a.required.some(k => !b.present.has(k)) || b.required.some(k => !a.present.has(k));
+    if (!keySets.every((a, i) => keySets.slice(i + 1).every(b => differ(a, b)))) continue;
+
+    if (!best || groups.size < best.groups.size) best = { key, groups };
+  }
+  if (!best) return undefined;
+
+  const { key, groups } = best;
+  const variants: Shape[] = [];
+  for (const [tag, group] of groups) {
+    let merged: ObjectShape = group[0];
+    for (let i = 1; i < group.length; i++) merged = mergeObjectShapes(merged, group[i], ctx);
+    const field = merged.keys[key];
+    const tagShape: ScalarShape = { ...(field.shape as ScalarShape), literal: tag };
+    variants.push({ ...merged, keys: { ...merged.keys, [key]: { ...field, shape: tagShape } } });
+  }
+  return { kind: "varied", variants, discriminator: key };
+}
+
 function _inferObjectShape(
   obj: Record<string, unknown>,
-  sampleSize: number,
-  maxDepth: number,
-  depth: number
-): ObjectShape {
-  const entries = Object.keys(obj);
-
-  // Empty object or at depth limit → return empty keys.
-  // The renderer distinguishes genuinely empty ({}) from depth-collapsed ({...})
-  // by checking its own depth counter.
-  if (entries.length === 0 || depth >= maxDepth) {
-    return { kind: "object", keys: {} };
+  ctx: InferContext,
+  depth: number,
+  path: string
+): ObjectShape | MapShape | TruncatedShape {
+  // JSON.stringify leaves out keys it has nothing to write for
+  const entries = ctx.jsTypes ? Object.keys(obj) : Object.keys(obj).filter(k => !isUnwritable(obj[k]));
+
+  // Nothing was left out of an empty object, even at the depth limit
+  if (entries.length === 0) return { kind: "object", keys: {} };
+  if (depth >= ctx.maxDepth) return { kind: "truncated", cut: "keys", size: entries.length };
+
+  if (ctx.maps) {
+    const valuePath = appendSegment(path, "[]");
+    const map = inferMapShape(entries, i => _inferShape(obj[entries[i]], ctx, depth + 1, valuePath), ctx);
+    if (map) return map;
   }
 
   const keys: Record<string, FieldShape> = {};
   for (const key of entries) {
     keys[key] = {
-      shape: _inferShape(obj[key], sampleSize, maxDepth, depth + 1),
+      shape: _inferShape(obj[key], ctx, depth + 1, appendSegment(path, keySegment(key))),
       optional: false,
     };
+    countOnce(keys[key], ctx);
   }
 
   return { kind: "object", keys };
 }
 
-// ─── Rendering ───────────────────────────────────────────────────────────────
+// ─── Maps ────────────────────────────────────────────────────────────────────
+
+function isGeneratedKey(key: string): boolean {
+  return GENERATED_KEYS.some(pattern => pattern.test(key));
+}
 
 /**
- * Can this shape be rendered inline (on a single line) without becoming unreadable?
- *
- * Inline-able shapes:
- * - Scalars: `string`, `number`, etc.
- * - Varied of inline-able shapes: `string | number`
- * - Empty arrays: `Array(0)`
- * - Arrays of inline-able children: `Array(5) of string`
- * - Compact objects (≤3 keys, all inline-able values): `{a: number, b: string}`
+ * Infer a map shape for an object, if it is used as a dictionary: at least
+ * MIN_MAP_KEYS keys, all generated-looking, whose sampled values merge into
+ * one shape (give or take null). Values are sampled like array elements.
  *
- * This is used to decide whether an object should render single-line or multiline.
- * The recursion naturally limits depth — an object inside an object inside an object
- * will eventually have too many keys or non-inline values.
+ * @param keys - The object's keys, in order
+ * @param valueAt - Shape of the value of the i-th key
  */
-function isInlineShape(shape: Shape): boolean {
-  switch (shape.kind) {
-    case "scalar":
-      return true;
-    case "varied":
-      return shape.variants.every(isInlineShape);
-    case "array":
-      // Empty arrays and arrays of inline children are inline-able
-      if (isEmptyArray(shape)) return true;
-      return isInlineShape(shape.children);
-    case "object":
-      return isCompactObject(shape);
-  }
+function inferMapShape(
+  keys: string[],
+  valueAt: (index: number) => Shape,
+  ctx: InferContext
+): MapShape | undefined {
+  if (keys.length < MIN_MAP_KEYS || !keys.every(isGeneratedKey)) return undefined;
+  return toMapShape(keys, sampleIndices(keys.length, ctx).map(valueAt), ctx);
 }
 
-/**
- * Should this object render on a single line?
- * Yes if ≤3 keys and all values are inline-able.
- */
-function isCompactObject(shape: ObjectShape): boolean {
+/** View an empty object as an object cut at maxDepth with no keys, for merging with one */
+function emptyObjectAsCut(shape: ObjectShape): TruncatedShape | undefined {
+  if (Object.keys(shape.keys).length > 0) return undefined;
+  const cut: TruncatedShape = { kind: "truncated", cut: "keys", size: 0 };
+  if (shape.className !== undefined) cut.className = shape.className;
+  if (shape.count !== undefined) cut.count = shape.count;
+  return cut;
+}
+
+/** View an object whose keys all look generated as a map, for merging with one */
+function objectAsMap(shape: ObjectShape, ctx: MergeContext): MapShape | undefined {
   const keys = Object.keys(shape.keys);
-  if (keys.length === 0) return true;
-  if (keys.length > 3) return false;
-  return keys.every(k => isInlineShape(shape.keys[k].shape));
+  if (!keys.every(isGeneratedKey)) return undefined;
+  const map: MapShape | undefined =
+    keys.length === 0
+      ? { kind: "map", size: 0, keys: mapKeys(keys, ctx), values: { kind: "scalar", type: "null" } }
+      : toMapShape(keys, keys.map(k => shape.keys[k].shape), ctx);
+  if (map && shape.count !== undefined) map.count = shape.count;
+  return map;
 }
 
-/**
- * Format the length portion of an array descriptor.
- * - Known single length: "502"
- * - Range with different min/max: "2-5"
- * - Range with equal min/max: "3"
- */
-function formatArrayLength(shape: ArrayShape): string {
-  if (shape.minLength !== undefined && shape.maxLength !== undefined) {
-    if (shape.minLength === shape.maxLength) {
-      return String(shape.minLength);
-    }
-    return `${shape.minLength}-${shape.maxLength}`;
+/** Merge the values of a would-be map; undefined unless they share one shape */
+function toMapShape(keys: string[], values: Shape[], ctx: MergeContext): MapShape | undefined {
+  let merged = values[0];
+  for (let i = 1; i < values.length; i++) merged = mergeShapes(merged, values[i], ctx);
+
+  if (merged.kind === "varied") {
+    const nonNull = merged.variants.filter(v => !(v.kind === "scalar" && v.type === "null"));
+    if (nonNull.length > 1) return undefined;
   }
-  return String(shape.length);
+  return { kind: "map", size: keys.length, keys: mapKeys(keys, ctx), values: merged };
 }
 
-/** Is this array effectively empty? */
-function isEmptyArray(shape: ArrayShape): boolean {
-  if (shape.minLength !== undefined && shape.maxLength !== undefined) {
-    return shape.maxLength === 0;
+/** Describe a map's keys: their shared format, and the first few as examples */
+function mapKeys(keys: string[], ctx: MergeContext): ScalarShape {
+  const shape: ScalarShape = { kind: "scalar", type: "string" };
+  if (ctx.formats && keys.length > 0) {
+    const format = formatOf(keys[0]);
+    if (format && keys.every(k => formatOf(k) === format)) shape.format = format;
   }
-  return shape.length === 0;
+  if (keys.length > 0) shape.examples = keys.slice(0, MAP_EXAMPLE_KEYS);
+  if (keys.length > MAP_EXAMPLE_KEYS) shape.moreExamples = true;
+  return shape;
+}
+
+/**
+ * Infer the shape of a JavaScript Map (with the `jsTypes` option): entries are
+ * sampled like array elements; string keys are described like an object's,
+ * keys of other types like values. At the depth limit, a cut `Map {...}`.
+ */
+function inferJsMapShape(
+  map: Map<unknown, unknown>,
+  ctx: InferContext,
+  depth: number,
+  path: string
+): MapShape | TruncatedShape {
+  if (map.size > 0 && depth >= ctx.maxDepth) return { kind: "truncated", cut: "keys", size: map.size, className: "Map" };
+  const shape: MapShape = {
+    kind: "map",
+    size: map.size,
+    keys: { kind: "scalar", type: "null" }, // placeholders; won't render when empty
+    values: { kind: "scalar", type: "null" },
+    className: "Map",
+  };
+  if (map.size === 0) return shape;
+
+  const entries = [...map];
+  const indices = sampleIndices(entries.length, ctx);
+  const keys = entries.map(([key]) => key);
+  if (keys.every(k => typeof k === "string")) {
+    shape.keys = mapKeys(keys as string[], ctx);
+  } else {
+    const keyPath = `${path || "."} | keys[]`;
+    const sampled = indices.map(i => _inferShape(keys[i], ctx, depth + 1, keyPath));
+    shape.keys = sampled.reduce((merged, k) => mergeShapes(merged, k, ctx));
+  }
+
+  const valuePath = appendSegment(path, "[]");
+  const values = indices.map(i => _inferShape(entries[i][1], ctx, depth + 1, valuePath));
+  shape.values = mergeElementShapes(values, indices.map(i => stringFields(entries[i][1])), ctx);
+  return shape;
+}
+
+// ─── Recursive Shapes ────────────────────────────────────────────────────────
+
+/**
+ * Fold tree-shaped data into one recursive object. An object is a node of a
+ * tree when, under one of its keys, there are objects with the same keys
+ * (give or take optional ones) holding the same kind of value under that key:
+ * a comment's `replies`, a directory's `children`. Every object under that key
+ * (through arrays, maps and untagged unions) merges into this one and is
+ * replaced by a `self` shape, and so do the objects under theirs. Objects cut
+ * at maxDepth there are taken for nodes.
+ *
+ * Objects are folded as they are inferred, bottom-up, so a node below has
+ * been folded already and merges in whole.
+ */
+function foldRecursion(shape: ObjectShape, ctx: InferContext): ObjectShape {
+  const key = Object.keys(shape.keys).find(k => {
+    const nodes = nodesUnder(shape.keys[k].shape);
+    return nodes.length > 0 && nodes.every(n => isNodeOf(n, shape, k));
+  });
+  if (key === undefined) return shape;
+
+  // With `frequencies`, counts add up to the number of nodes: this object is
+  // one, and a node folded already stands for the nodes below it as well
+  countOnce(shape, ctx);
+  const pending: ObjectShape[] = [];
+  const replace = (s: Shape): Shape => {
+    switch (s.kind) {
+      case "object": {
+        pending.push(s);
+        const count = s.recursive && s.count !== undefined ? s.count - selfCount(s) : s.count;
+        return count === undefined ? { kind: "self" } : { kind: "self", count };
+      }
+      case "truncated":
+        if (s.cut !== "keys" || s.className !== shape.className) return s;
+        return s.count === undefined ? { kind: "self" } : { kind: "self", count: s.count };
+      case "array":
+        return isEmptyArray(s) ? s : { ...s, children: replace(s.children) };
+      case "map":
+        return isEmptyMap(s) ? s : { ...s, values: replace(s.values) };
+      case "varied":
+        if (s.discriminator) return s;
+        return s.variants.map(replace).reduce((a, b) => mergeShapes(a, b, ctx));
+      default:
+        return s;
+    }
+  };
+  const withSelf = (node: ObjectShape): ObjectShape => {
+    const field = node.keys[key];
+    if (!field) return node;
+    return { ...node, keys: { ...node.keys, [key]: { ...field, shape: replace(field.shape) } } };
+  };
+
+  let folded: ObjectShape = { ...withSelf(shape), recursive: true };
+  while (pending.length > 0) folded = mergeObjectShapes(folded, withSelf(pending.shift()!), ctx);
+  return folded;
+}
+
+/**
+ * How many times a recursive object refers to itself, as counted with
+ * `frequencies`: the nodes it stands for that sit below another of them
+ */
+function selfCount(shape: ObjectShape): number {
+  const count = (s: Shape): number => {
+    switch (s.kind) {
+      case "self":
+        return s.count ?? 0;
+      case "object":
+        // The self shapes of a recursive object inside are its own
+        return s.recursive ? 0 : selfCount(s);
+      case "array":
+        return count(s.children);
+      case "map":
+        return count(s.values);
+      case "varied":
+        return s.variants.reduce((sum, v) => sum + count(v), 0);
+      default:
+        return 0;
+    }
+  };
+  return Object.values(shape.keys).reduce((sum, field) => sum + count(field.shape), 0);
+}
+
+/** Objects a value is, or holds through arrays, maps and untagged unions */
+function nodesUnder(shape: Shape): ObjectShape[] {
+  switch (shape.kind) {
+    case "object":
+      return [shape];
+    case "array":
+      return isEmptyArray(shape) ? [] : nodesUnder(shape.children);
+    case "map":
+      return isEmptyMap(shape) ? [] : nodesUnder(shape.values);
+    case "varied":
+      return shape.discriminator ? [] : shape.variants.flatMap(nodesUnder);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Is `node`, found under `parent`'s `key`, another node of the same tree?
+ * They share another key, neither has a required key the other lacks, and
+ * the node holds the same kinds of value under `key` as the parent does, or
+ * null: `{id, user: {id, user: "alice"}}` is a user with an owner, not a tree.
+ */
+function isNodeOf(node: ObjectShape, parent: ObjectShape, key: string): boolean {
+  if (!(key in node.keys) || node.className !== parent.className) return false;
+  if (!Object.keys(node.keys).some(k => k !== key && k in parent.keys)) return false;
+  const required = (o: ObjectShape, other: ObjectShape) =>
+    Object.keys(o.keys).every(k => o.keys[k].optional || k in other.keys);
+  if (!required(node, parent) || !required(parent, node)) return false;
+  const parentKinds = new Set(valueKinds(parent.keys[key].shape));
+  return valueKinds(node.keys[key].shape).every(kind => parentKinds.has(kind));
+}
+
+/** The kinds of value a shape describes, null aside: `scalar` (by type), `array`, `object`... */
+function valueKinds(shape: Shape): string[] {
+  const variants = shape.kind === "varied" ? shape.variants : [shape];
+  return variants.flatMap(v => {
+    if (v.kind === "scalar") return v.type === "null" ? [] : [v.type];
+    // A node cut at maxDepth, or already folded, is an object too
+    if (v.kind === "self" || (v.kind === "truncated" && v.cut === "keys")) return ["object"];
+    return [v.kind];
+  });
+}
+
+// ─── Streaming Inference ─────────────────────────────────────────────────────
+
+/** A container being built while streaming */
+type StreamFrame =
+  | { kind: "array"; depth: number; sampler: StreamSampler }
+  | {
+      kind: "object";
+      depth: number;
+      keys: Record<string, FieldShape>;
+      key: string;
+      /** String-valued keys, for tag detection in the parent array */
+      strings: Record<string, string>;
+      /** Keys of an object at the depth limit: counted, not looked into */
+      cut?: Set<string>;
+    };
+
+/** The shape of an element kept while streaming, and its index */
+type ElementSample = { index: number; shape: Shape; strings?: Record<string, string> };
+
+/**
+ * Samples the elements of an array whose length is only known at its end.
+ * Arrays no longer than sampleSize keep every element, whatever the strategy.
+ */
+interface StreamSampler {
+  /** Elements counted so far */
+  readonly length: number;
+  /** Count the next element; true if its shape should be kept */
+  next(): boolean;
+  /** Keep the shape of the element last counted, after next() said so */
+  keep(shape: Shape, strings?: Record<string, string>): void;
+  /** The kept elements, in order */
+  samples(): ElementSample[];
+}
+
+/**
+ * A StreamSampler for ctx.sampling:
+ * - "even": stride doubling — every `stride`-th element is kept, and whenever
+ *   more than sampleSize are held, the stride doubles and every other kept
+ *   element is dropped
+ * - "first-last": the same, with the latest element always kept too
+ * - "head-tail": the first elements, a ring of the latest ones, and stride
+ *   doubling over those that leave the ring
+ * - "random": reservoir sampling, drawing from ctx.seed
+ *
+ * The picks approximate sampleIndices', which needs the length up front.
+ */
+function createStreamSampler(ctx: InferContext): StreamSampler {
+  const { sampleSize, sampling } = ctx;
+  let length = 0;
+
+  if (sampling === "random") {
+    const random = seededRandom(ctx.seed);
+    const reservoir: ElementSample[] = [];
+    let slot = 0;
+    return {
+      get length() {
+        return length;
+      },
+      next() {
+        const index = length++;
+        slot = index < sampleSize ? index : Math.floor(random() * (index + 1));
+        return slot < sampleSize;
+      },
+      keep(shape, strings) {
+        reservoir[slot] = { index: length - 1, shape, strings };
+      },
+      samples: () => reservoir.filter(s => s !== undefined).sort((a, b) => a.index - b.index),
+    };
+  }
+
+  if (sampling === "head-tail") {
+    const { head, tail, middle } = headTailSizes(sampleSize);
+    const first: ElementSample[] = [];
+    const latest: ElementSample[] = [];
+    const between = createStridePool(middle);
+    return {
+      get length() {
+        return length;
+      },
+      next() {
+        length++;
+        return true;
+      },
+      keep(shape, strings) {
+        const sample = { index: length - 1, shape, strings };
+        if (sample.index < head) {
+          first.push(sample);
+        } else {
+          latest.push(sample);
+          if (latest.length > tail) between.offer(latest.shift()!);
+        }
+      },
+      samples: () => [...first, ...between.held(), ...latest],
+    };
+  }
+
+  // "even", and "first-last" with the latest element set aside
+  const pool = createStridePool(sampleSize);
+  let last: ElementSample | undefined;
+  return {
+    get length() {
+      return length;
+    },
+    next() {
+      const index = length++;
+      return sampling === "first-last" || pool.wants(index);
+    },
+    keep(shape, strings) {
+      last = { index: length - 1, shape, strings };
+      pool.offer(last);
+    },
+    samples() {
+      const held = pool.held();
+      if (sampling !== "first-last" || !last || held[held.length - 1] === last) return held;
+      return [...held.slice(0, sampleSize - 1), last];
+    },
+  };
+}
+
+/** Elements kept by stride doubling, at most `limit` of them */
+function createStridePool(limit: number) {
+  let stride = 1;
+  let held: ElementSample[] = [];
+  const wants = (index: number): boolean => limit > 0 && index % stride === 0;
+  return {
+    wants,
+    offer(sample: ElementSample): void {
+      if (!wants(sample.index)) return;
+      held.push(sample);
+      if (held.length > limit) {
+        stride *= 2;
+        held = held.filter(s => s.index % stride === 0);
+      }
+    },
+    held: () => held,
+  };
+}
+
+/** Streams can't call a sampling function: it needs the array length up front */
+function assertStreamSampling(ctx: InferContext): void {
+  if (typeof ctx.sampling === "function") {
+    throw new TypeError("A sampling function needs the array length up front; streams take only the built-in strategies");
+  }
+}
+
+/**
+ * Infer the shape of a JSON document from a stream of text chunks, without
+ * parsing the whole document into memory.
+ *
+ * Produces the same Shape AST as `inferShape(JSON.parse(text))`. Arrays
+ * longer than sampleSize are sampled on the fly (see createStreamSampler),
+ * and only the shapes of sampled elements are held in memory.
+ *
+ * @param source - Text or UTF-8 byte chunks (a Node readable stream, a web
+ *   ReadableStream, or any (async) iterable of chunks)
+ * @param options - sampleSize (default 100), maxDepth (default 8), examples (default 0),
+ *   enums (default 0), stats (default false)
+ * @returns Shape AST
+ * @throws SyntaxError if the text is not valid JSON
+ * @throws TypeError if `sampling` is a function
+ *
+ * @example
+ * ```ts
+ * const shape = await inferShapeFromStream(fs.createReadStream("dump.json"));
+ * ```
+ */
+export async function inferShapeFromStream(
+  source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+  options?: ThumbOptions
+): Promise<Shape> {
+  const ctx = createInferContext(options);
+  const { maxDepth } = ctx;
+  assertStreamSampling(ctx);
+
+  const stack: StreamFrame[] = [];
+  let result: Shape | undefined;
+  // > 0 while inside a value that won't be sampled: counts open containers
+  let skipping = 0;
+
+  /** Register a new value with its parent; false if it won't be sampled */
+  const beginValue = (): boolean => {
+    const parent = stack[stack.length - 1];
+    if (!parent) return true;
+    if (parent.kind === "array") {
+      return parent.sampler.next() && parent.depth < maxDepth;
+    }
+    return parent.depth < maxDepth;
+  };
+
+  /** Hand a finished value's shape to its parent */
+  const finishValue = (shape: Shape, strings?: Record<string, string>): void => {
+    if (shape.kind !== "varied") countOnce(shape, ctx);
+    const parent = stack[stack.length - 1];
+    if (!parent) {
+      result = shape;
+    } else if (parent.kind === "object") {
+      parent.keys[parent.key] = { shape, optional: false };
+      countOnce(parent.keys[parent.key], ctx);
+    } else {
+      parent.sampler.keep(shape, strings);
+    }
+  };
+
+  const depth = (): number => stack.length;
+
+  const tokenizer = createJsonTokenizer({
+    startObject() {
+      if (skipping > 0 || !beginValue()) {
+        skipping++;
+        return;
+      }
+      stack.push({ kind: "object", depth: depth(), keys: {}, key: "", strings: {} });
+    },
+
+    startArray() {
+      if (skipping > 0 || !beginValue()) {
+        skipping++;
+        return;
+      }
+      stack.push({ kind: "array", depth: depth(), sampler: createStreamSampler(ctx) });
+    },
+
+    endObject() {
+      if (skipping > 0) {
+        skipping--;
+        return;
+      }
+      const frame = stack.pop() as Extract<StreamFrame, { kind: "object" }>;
+      if (frame.depth >= maxDepth && frame.cut) {
+        finishValue({ kind: "truncated", cut: "keys", size: frame.cut.size });
+        return;
+      }
+      const names = Object.keys(frame.keys);
+      const map = ctx.maps ? inferMapShape(names, i => frame.keys[names[i]].shape, ctx) : undefined;
+      const shape: ObjectShape = { kind: "object", keys: frame.keys };
+      finishValue(map ?? (ctx.recursion ? foldRecursion(shape, ctx) : shape), frame.strings);
+    },
+
+    endArray() {
+      if (skipping > 0) {
+        skipping--;
+        return;
+      }
+      const frame = stack.pop() as Extract<StreamFrame, { kind: "array" }>;
+      finishValue(finishStreamArray(frame.sampler.length, frame.sampler.samples(), ctx));
+    },
+
+    key(name) {
+      if (skipping > 0) return;
+      const frame = stack[stack.length - 1] as Extract<StreamFrame, { kind: "object" }>;
+      frame.key = name;
+      if (frame.depth >= maxDepth) (frame.cut ??= new Set()).add(name);
+    },
+
+    value(value) {
+      if (skipping > 0 || !beginValue()) return;
+      const parent = stack[stack.length - 1];
+      if (parent?.kind === "object" && typeof value === "string") parent.strings[parent.key] = value;
+      finishValue(_inferShape(value, ctx, depth()));
+    },
+  });
+
+  const decoder = new TextDecoder();
+  for await (const chunk of source) {
+    tokenizer.write(typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true }));
+  }
+  tokenizer.write(decoder.decode());
+  tokenizer.end();
+
+  return result as Shape;
+}
+
+/**
+ * Build an array shape from the sampled element shapes, like _inferArrayShape.
+ * Elements of a non-empty array go unsampled only at the depth limit.
+ */
+function finishStreamArray(
+  length: number,
+  samples: Array<{ shape: Shape; strings?: Record<string, string> }>,
+  ctx: InferContext
+): ArrayShape {
+  if (length === 0) {
+    return {
+      kind: "array",
+      length,
+      children: { kind: "scalar", type: "null" }, // placeholder; won't render
+    };
+  }
+  if (samples.length === 0) {
+    return { kind: "array", length, children: { kind: "truncated", cut: "elements", size: length } };
+  }
+
+  const children = mergeElementShapes(
+    samples.map(s => s.shape),
+    samples.map(s => s.strings),
+    ctx
+  );
+  return { kind: "array", length, children };
+}
+
+// ─── Line-Delimited Input ────────────────────────────────────────────────────
+
+/**
+ * Infer the shape of NDJSON / JSON Lines text: one JSON value per line.
+ *
+ * Each line is a record, and the records are described like the elements of
+ * an array — sampled with sampleIndices, merged, split into tagged
+ * unions — but rendered as `Lines(N) of ...`, where N counts the well-formed
+ * lines. Blank lines are skipped; malformed lines are reported with their
+ * line numbers instead of failing.
+ *
+ * @param text - NDJSON text
+ * @param options - Same as `inferShape`
+ * @returns The records' shape, and the malformed lines
+ *
+ * @example
+ * ```ts
+ * const { shape, malformed } = inferShapeFromLines('{"id": 1}\n{"id": 2, "ok": true}\n{"id": \n');
+ * renderThumb(shape) // → 'Lines(2) of {id: number, ok?: boolean}'
+ * malformed          // → [{line: 3, message: "Unexpected end of JSON input"}]
+ * ```
+ */
+export function inferShapeFromLines(text: string, options?: ThumbOptions): LinesResult {
+  const ctx = createInferContext(options);
+  const result: LinesResult = { shape: finishStreamArray(0, [], ctx), malformed: [], malformedCount: 0 };
+
+  // Every line is parsed to find the malformed ones; only sampled records are kept
+  const lines = text.split("\n");
+  const records: number[] = [];
+  lines.forEach((line, i) => {
+    if (line.trim() === "") return;
+    try {
+      JSON.parse(line);
+      records.push(i);
+    } catch (err) {
+      reportMalformedLine(result, i + 1, err);
+    }
+  });
+
+  const samples =
+    ctx.maxDepth > 0
+      ? sampleIndices(records.length, ctx).map(i => {
+          const value: unknown = JSON.parse(lines[records[i]]);
+          return { shape: _inferShape(value, ctx, 1), strings: stringFields(value) };
+        })
+      : [];
+  result.shape = { ...finishStreamArray(records.length, samples, ctx), lines: true };
+  return result;
+}
+
+/**
+ * Infer the shape of NDJSON / JSON Lines from a stream of text chunks, one
+ * line at a time, like `inferShapeFromLines`.
+ *
+ * The number of lines is only known at the end, so records are sampled as
+ * `inferShapeFromStream` samples arrays: only the shapes of sampled records
+ * are held in memory.
+ *
+ * @param source - Text or UTF-8 byte chunks (a Node readable stream, a web
+ *   ReadableStream, or any (async) iterable of chunks)
+ * @param options - Same as `inferShape`
+ * @returns The records' shape, and the malformed lines
+ * @throws TypeError if `sampling` is a function
+ *
+ * @example
+ * ```ts
+ * const { shape, malformedCount } = await inferShapeFromLineStream(fs.createReadStream("events.ndjson"));
+ * ```
+ */
+export async function inferShapeFromLineStream(
+  source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+  options?: ThumbOptions
+): Promise<LinesResult> {
+  const ctx = createInferContext(options);
+  const result: LinesResult = { shape: finishStreamArray(0, [], ctx), malformed: [], malformedCount: 0 };
+  assertStreamSampling(ctx);
+  const records = createStreamSampler(ctx);
+  let lineNumber = 0;
+
+  const readLine = (line: string): void => {
+    lineNumber++;
+    if (line.trim() === "") return;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (err) {
+      reportMalformedLine(result, lineNumber, err);
+      return;
+    }
+    if (records.next() && ctx.maxDepth > 0) {
+      records.keep(_inferShape(value, ctx, 1), stringFields(value));
+    }
+  };
+
+  const decoder = new TextDecoder();
+  let pending = "";
+  for await (const chunk of source) {
+    pending += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = pending.split("\n");
+    pending = lines.pop()!;
+    lines.forEach(readLine);
+  }
+  readLine(pending + decoder.decode());
+
+  result.shape = { ...finishStreamArray(records.length, records.samples(), ctx), lines: true };
+  return result;
+}
+
+function reportMalformedLine(result: LinesResult, line: number, err: unknown): void {
+  if (result.malformed.length < MAX_MALFORMED_LINES) {
+    result.malformed.push({ line, message: (err as Error).message });
+  }
+  result.malformedCount++;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+/**
+ * Check a value against a shape — typically one inferred from an earlier
+ * version of the same data — and list every mismatch with its jq path:
+ *
+ * - `.results[17].price: expected number, got string`
+ * - `.results[3].id: missing required key`
+ * - `.results[3].extra: unexpected key`
+ * - `.results[2].tags: expected 1-4 elements, got 7` (only for merged length ranges)
+ * - `.created: expected string<date>, got "yesterday"`
+ *
+ * Values are classified the way `inferShape` sees them. Every array element
+ * is checked, not just a sample. A union is matched by the value's type, and
+ * a tagged union by the value's tag. Containers at maxDepth aren't looked into.
+ *
+ * @param value - Any JSON-compatible value
+ * @param shape - Shape to check against
+ * @param options - maxDepth (default 8): the depth the shape was inferred to;
+ *   jsTypes (default false): as the shape was inferred
+ * @returns Violations in document order; empty if the value matches
+ *
+ * @example
+ * ```ts
+ * checkShape({price: "9.99"}, inferShape({price: 10}))
+ * // → [{path: ".price", message: "expected number, got string"}]
+ * ```
+ */
+export function checkShape(value: unknown, shape: Shape, options?: ThumbOptions): ShapeViolation[] {
+  const out: ShapeViolation[] = [];
+  checkValue(value, shape, "", createInferContext(options), 0, out);
+  return out;
+}
+
+function checkValue(
+  value: unknown,
+  shape: Shape,
+  path: string,
+  ctx: InferContext,
+  depth: number,
+  out: ShapeViolation[]
+): void {
+  value = ctx.jsTypes ? unboxed(value) : toJSONValue(value);
+  const type = typeOf(value, ctx.jsTypes);
+  // Another node of a tree is checked against the recursive object it repeats
+  const node = ctx.nodes[ctx.nodes.length - 1];
+  const variants = (shape.kind === "varied" ? shape.variants : [shape]).map(v => (v.kind === "self" && node) || v);
+  const candidates = variants.filter(v => {
+    switch (v.kind) {
+      case "scalar":
+        return v.type === type;
+      case "array":
+        return type === "array" || type === "Set" || type === "typed array";
+      case "map":
+        return type === "object" || type === "Map";
+      case "object":
+        return type === "object" || (type === "Map" && v.className === "Map");
+      case "circular":
+        return type === "array" || type === "object" || type === "Map" || type === "Set";
+      case "truncated":
+        return v.cut === "elements" || type === "object" || (type === "Map" && v.className === "Map");
+      case "self":
+        return type === "object";
+      case "varied":
+        return false;
+    }
+  });
+  const fail = (message: string) => out.push({ path: path || ".", message });
+
+  if (candidates.length === 0) {
+    fail(`expected ${describeShape(shape)}, got ${type}`);
+    return;
+  }
+
+  // What a circular reference refers to was checked where it first appeared,
+  // and what lies past maxDepth wasn't looked into
+  if (candidates.some(c => c.kind === "circular" || c.kind === "truncated" || c.kind === "self")) return;
+
+  if (type === "string" && typeof value === "string") {
+    const matches = (candidates as ScalarShape[]).some(s =>
+      s.literal !== undefined ? s.literal === value : !s.format || formatOf(value) === s.format
+    );
+    if (!matches) fail(`expected ${describeShape(shape)}, got ${quoteString(value)}`);
+    return;
+  }
+
+  if (type === "array" || type === "Set" || type === "typed array") {
+    const elements = type === "array" ? (value as unknown[]) : Array.from(value as Iterable<unknown>);
+    checkArray(elements, candidates[0] as ArrayShape, path, ctx, depth, out);
+    return;
+  }
+
+  if (type === "Map") {
+    const map = candidates.find((c): c is MapShape => c.kind === "map");
+    if (map) checkMap([...(value as Map<unknown, unknown>)], map, path, ctx, depth, out);
+    return;
+  }
+
+  if (type === "object") {
+    const obj = value as Record<string, unknown>;
+    const objects = candidates.filter((c): c is ObjectShape => c.kind === "object");
+    const discriminator = shape.kind === "varied" ? shape.discriminator : undefined;
+
+    // A tagged union: the tag says which variant to check against
+    if (discriminator && objects.length > 0) {
+      const tag = obj[discriminator];
+      const variant = objects.find(o => tagOf(o, discriminator) === tag);
+      if (variant) {
+        checkObject(obj, variant, path, ctx, depth, out);
+      } else if (!(discriminator in obj)) {
+        out.push({ path: appendSegment(path, keySegment(discriminator)), message: "missing required key" });
+      } else {
+        const tags = objects.map(o => JSON.stringify(tagOf(o, discriminator))).join(" | ");
+        const got = typeof tag === "string" ? quoteString(tag) : typeOf(tag, ctx.jsTypes);
+        out.push({ path: appendSegment(path, keySegment(discriminator)), message: `expected ${tags}, got ${got}` });
+      }
+      return;
+    }
+
+    if (objects.length === 0) {
+      checkMap(Object.entries(obj), candidates[0] as MapShape, path, ctx, depth, out);
+      return;
+    }
+    // Untagged objects side by side (a node of a recursive object beside
+    // another): the one the object fits best
+    const found = objects.map(o => {
+      const violations: ShapeViolation[] = [];
+      checkObject(obj, o, path, ctx, depth, violations);
+      return violations;
+    });
+    out.push(...found.reduce((best, v) => (v.length < best.length ? v : best)));
+  }
+}
+
+function checkArray(
+  arr: unknown[],
+  shape: ArrayShape,
+  path: string,
+  ctx: InferContext,
+  depth: number,
+  out: ShapeViolation[]
+): void {
+  // One array's own length says nothing about the next; a merged range does
+  if (shape.minLength !== undefined && shape.maxLength !== undefined) {
+    if (arr.length < shape.minLength || arr.length > shape.maxLength) {
+      out.push({
+        path: path || ".",
+        message: `expected ${formatArrayLength(shape)} elements, got ${arr.length}`,
+      });
+    }
+  }
+
+  if (isEmptyArray(shape) || depth >= ctx.maxDepth) return;
+  arr.forEach((element, i) => {
+    checkValue(element, shape.children, appendSegment(path, `[${i}]`), ctx, depth + 1, out);
+  });
+}
+
+function checkObject(
+  obj: Record<string, unknown>,
+  shape: ObjectShape,
+  path: string,
+  ctx: InferContext,
+  depth: number,
+  out: ShapeViolation[]
+): void {
+  // No keys at the depth limit means the keys weren't looked at
+  if (depth >= ctx.maxDepth) return;
+
+  // Keys JSON.stringify would leave out aren't there, as inference sees it
+  const has = (key: string) => key in obj && (ctx.jsTypes || !isUnwritable(obj[key]));
+  if (shape.recursive) ctx.nodes.push(shape);
+  for (const [key, field] of Object.entries(shape.keys)) {
+    const keyPath = appendSegment(path, keySegment(key));
+    if (has(key)) {
+      checkValue(obj[key], field.shape, keyPath, ctx, depth + 1, out);
+    } else if (!field.optional) {
+      out.push({ path: keyPath, message: "missing required key" });
+    }
+  }
+  if (shape.recursive) ctx.nodes.pop();
+  for (const key of Object.keys(obj)) {
+    if (!(key in shape.keys) && has(key)) {
+      out.push({ path: appendSegment(path, keySegment(key)), message: "unexpected key" });
+    }
+  }
+}
+
+/** Check the values of an object used as a map, or the entries of a JavaScript Map */
+function checkMap(
+  entries: Array<[unknown, unknown]>,
+  shape: MapShape,
+  path: string,
+  ctx: InferContext,
+  depth: number,
+  out: ShapeViolation[]
+): void {
+  if (isEmptyMap(shape) || depth >= ctx.maxDepth) return;
+  for (const [key, value] of entries) {
+    checkValue(value, shape.values, appendSegment(path, keySegment(String(key))), ctx, depth + 1, out);
+  }
+}
+
+/** What a shape expects at the top level: `number | null`, `string<date>`, `"click"`, `object` */
+function describeShape(shape: Shape): string {
+  switch (shape.kind) {
+    case "scalar":
+      if (shape.literal !== undefined) return JSON.stringify(shape.literal);
+      return shape.format ? `${shape.type}<${shape.format}>` : shape.type;
+    case "array":
+      return shape.className ?? "array";
+    case "object":
+    case "map":
+      return shape.className ?? "object";
+    case "self":
+      return "object";
+    case "varied":
+      return [...new Set(shape.variants.map(describeShape))].join(" | ");
+    case "circular":
+      return `<circular ${shape.path}>`;
+    case "truncated":
+      return shape.cut === "keys" ? (shape.className ?? "object") : "...";
+  }
+}
+
+// ─── Diffing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Compare an old shape with a new one — say, an API's response before and
+ * after an upstream change — and list what changed, by jq path.
+ *
+ * A change is breaking when data of the new shape can reach code written for
+ * the old one in a form it has never seen: a removed key, a key that became
+ * optional, a type that was widened (`number` → `number | null`) or changed,
+ * a new tag in a tagged union, array lengths outside the old range. Added
+ * keys, keys that became required and narrowed types are not breaking.
+ *
+ * Objects are compared key by key, tagged unions tag by tag (when both sides
+ * use the same discriminator; otherwise each side's objects are merged into
+ * one first), arrays and maps element by element — an object whose keys look
+ * generated as a map, when the other side has one. A node of a recursive type
+ * is compared as the type it repeats when the other side isn't a node too.
+ *
+ * @param a - The old shape
+ * @param b - The new shape
+ * @param options - maxDepth (default 8): the depth the shapes were inferred to
+ * @returns Changes in key order, depth first
+ *
+ * @example
+ * ```ts
+ * diffShapes(inferShape({id: 1, price: 10}), inferShape([{id: 1, price: null}, {id: 2, price: 3}]))
+ * ```
+ */
+export function diffShapes(a: Shape, b: Shape, options?: ThumbOptions): ShapeChange[] {
+  const ctx: DiffContext = { ...createInferContext(options), before: [], after: [] };
+  const out: ShapeChange[] = [];
+  diffValue(a, b, "", ctx, 0, out);
+
+  // Changes shared by several variants of a tagged union are listed once
+  const seen = new Set<string>();
+  return out.filter(change => {
+    const id = JSON.stringify(change);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+function diffValue(a: Shape, b: Shape, path: string, ctx: DiffContext, depth: number, out: ShapeChange[]): void {
+  let aVariants = a.kind === "varied" ? a.variants : [a];
+  let bVariants = b.kind === "varied" ? b.variants : [b];
+
+  // A node of a tree is compared as the recursive object it repeats — unless
+  // the other side is a node too, and the two trees were compared already
+  const aSelf = aVariants.some(v => v.kind === "self");
+  const bSelf = bVariants.some(v => v.kind === "self");
+  if (aSelf !== bSelf) {
+    aVariants = unfoldSelf(aVariants, ctx.before);
+    bVariants = unfoldSelf(bVariants, ctx.after);
+  }
+
+  const aTypes = new Set(aVariants.map(describeShape));
+  const bTypes = new Set(bVariants.map(describeShape));
+  const widened = [...bTypes].some(t => !aTypes.has(t));
+  const narrowed = [...aTypes].some(t => !bTypes.has(t));
+  if (widened || narrowed) {
+    const before = [...aTypes].join(" | ");
+    const after = [...bTypes].join(" | ");
+    out.push({ path: path || ".", kind: "type", breaking: widened, before, after });
+  }
+
+  const aArray = aVariants.find((v): v is ArrayShape => v.kind === "array");
+  const bArray = bVariants.find((v): v is ArrayShape => v.kind === "array");
+  if (aArray && bArray) diffArrays(aArray, bArray, path, ctx, depth, out);
+
+  const aMap = aVariants.find((v): v is MapShape => v.kind === "map");
+  const bMap = bVariants.find((v): v is MapShape => v.kind === "map");
+  const aObjects = aVariants.filter((v): v is ObjectShape => v.kind === "object");
+  const bObjects = bVariants.filter((v): v is ObjectShape => v.kind === "object");
+  if (aMap && bMap) diffMaps(aMap, bMap, path, ctx, depth, out);
+
+  // An object and a map: as two maps when the object's keys look generated
+  if ((aMap && !bMap && bObjects.length > 0) || (bMap && !aMap && aObjects.length > 0)) {
+    const before = aMap ?? objectAsMap(mergeAll(aObjects, ctx), ctx);
+    const after = bMap ?? objectAsMap(mergeAll(bObjects, ctx), ctx);
+    if (before && after) {
+      diffMaps(before, after, path, ctx, depth, out);
+    } else {
+      out.push({
+        path: path || ".",
+        kind: "type",
+        breaking: true,
+        before: before ? "map" : "object",
+        after: after ? "map" : "object",
+      });
+    }
+  }
+
+  if (aObjects.length === 0 || bObjects.length === 0) return;
+
+  const discriminator = a.kind === "varied" ? a.discriminator : undefined;
+  if (discriminator && b.kind === "varied" && b.discriminator === discriminator) {
+    diffTaggedUnions(aObjects, bObjects, discriminator, path, ctx, depth, out);
+    return;
+  }
+  diffObjects(mergeAll(aObjects, ctx), mergeAll(bObjects, ctx), path, ctx, depth, out);
+}
+
+function diffMaps(a: MapShape, b: MapShape, path: string, ctx: DiffContext, depth: number, out: ShapeChange[]): void {
+  if (isEmptyMap(a) || isEmptyMap(b) || isCut(a.values, b.values) || depth >= ctx.maxDepth) return;
+  diffValue(a.values, b.values, appendSegment(path, "[]"), ctx, depth + 1, out);
+}
+
+/** Variants with `self` replaced by the recursive object it stands for */
+function unfoldSelf(variants: Shape[], nodes: ObjectShape[]): Shape[] {
+  const node = nodes[nodes.length - 1];
+  return variants.map(v => (v.kind === "self" && node) || v);
+}
+
+function diffArrays(a: ArrayShape, b: ArrayShape, path: string, ctx: DiffContext, depth: number, out: ShapeChange[]): void {
+  // Only merged ranges are compared; a single array's length is just its size
+  if (a.minLength !== undefined && b.minLength !== undefined) {
+    const before = formatArrayLength(a);
+    const after = formatArrayLength(b);
+    if (before !== after) {
+      const outside = b.minLength < a.minLength || (b.maxLength as number) > (a.maxLength as number);
+      out.push({ path: path || ".", kind: "length", breaking: outside, before, after });
+    }
+  }
+  if (isEmptyArray(a) || isEmptyArray(b) || isCut(a.children, b.children) || depth >= ctx.maxDepth) return;
+  diffValue(a.children, b.children, appendSegment(path, "[]"), ctx, depth + 1, out);
+}
+
+/** Elements cut at maxDepth on either side weren't looked at, so there's nothing to compare */
+function isCut(a: Shape, b: Shape): boolean {
+  return a.kind === "truncated" || b.kind === "truncated";
+}
+
+function diffTaggedUnions(
+  aObjects: ObjectShape[],
+  bObjects: ObjectShape[],
+  discriminator: string,
+  path: string,
+  ctx: DiffContext,
+  depth: number,
+  out: ShapeChange[]
+): void {
+  const aTags = aObjects.map(o => tagOf(o, discriminator));
+  const bTags = bObjects.map(o => tagOf(o, discriminator));
+  const newTag = bTags.some(t => !aTags.includes(t));
+  if (newTag || aTags.some(t => !bTags.includes(t))) {
+    out.push({
+      path: appendSegment(path, keySegment(discriminator)),
+      kind: "type",
+      breaking: newTag,
+      before: aTags.map(t => JSON.stringify(t)).join(" | "),
+      after: bTags.map(t => JSON.stringify(t)).join(" | "),
+    });
+  }
+
+  aObjects.forEach((o, i) => {
+    const match = bObjects[bTags.indexOf(aTags[i])];
+    if (match) diffObjects(o, match, path, ctx, depth, out);
+  });
+}
+
+function diffObjects(a: ObjectShape, b: ObjectShape, path: string, ctx: DiffContext, depth: number, out: ShapeChange[]): void {
+  // No keys at the depth limit means the keys weren't looked at
+  if (depth >= ctx.maxDepth) return;
+
+  if (a.recursive) ctx.before.push(a);
+  if (b.recursive) ctx.after.push(b);
+
+  for (const [key, field] of Object.entries(a.keys)) {
+    const keyPath = appendSegment(path, keySegment(key));
+    const other = b.keys[key];
+    if (!other) {
+      out.push({ path: keyPath, kind: "removed", breaking: true, before: describeShape(field.shape) });
+      continue;
+    }
+    if (!field.optional && other.optional) out.push({ path: keyPath, kind: "optional", breaking: true });
+    if (field.optional && !other.optional) out.push({ path: keyPath, kind: "required", breaking: false });
+    diffValue(field.shape, other.shape, keyPath, ctx, depth + 1, out);
+  }
+  if (a.recursive) ctx.before.pop();
+  if (b.recursive) ctx.after.pop();
+  for (const [key, field] of Object.entries(b.keys)) {
+    if (key in a.keys) continue;
+    out.push({
+      path: appendSegment(path, keySegment(key)),
+      kind: "added",
+      breaking: false,
+      after: describeShape(field.shape),
+    });
+  }
+}
+
+/** Merge the object variants of a union into one object */
+function mergeAll(objects: ObjectShape[], ctx: MergeContext): ObjectShape {
+  return objects.reduce((merged, o) => mergeObjectShapes(merged, o, ctx));
+}
+
+/**
+ * Render changes one per line, marked `+` added, `-` removed, `~` changed:
+ *
+ * ```
+ * ~ .results[].price: number → number | null (breaking)
+ * - .results[].note: string (breaking)
+ * + .results[].discount: number
+ * ```
+ */
+export function renderShapeDiff(changes: ShapeChange[]): string {
+  return changes
+    .map(change => {
+      const breaking = change.breaking ? " (breaking)" : "";
+      switch (change.kind) {
+        case "added":
+          return `+ ${change.path}: ${change.after}${breaking}`;
+        case "removed":
+          return `- ${change.path}: ${change.before}${breaking}`;
+        case "optional":
+          return `~ ${change.path}: now optional${breaking}`;
+        case "required":
+          return `~ ${change.path}: now required${breaking}`;
+        case "type":
+          return `~ ${change.path}: ${change.before} → ${change.after}${breaking}`;
+        case "length":
+          return `~ ${change.path}: Array(${change.before}) → Array(${change.after})${breaking}`;
+      }
+    })
+    .join("\n");
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────────────
+
+/**
+ * State shared by one rendering pass.
+ *
+ * - `maxDepth`: depth at which arrays and objects collapse to `...` / `{...}`
+ * - `maxLineWidth`: width objects and unions have to fit in to stay on one line
+ * - `collapsed`: objects the budget pass has folded into a `{...N keys}` marker
+ * - `keptKeys`: objects whose key list the budget pass has cut short (key → how many to keep)
+ * - `keptVariants`: unions whose variant list the budget pass has cut short
+ * - `hiddenValues`: scalars whose examples / enum literals / stats the budget pass has dropped
+ * - `frequencies`: annotate optional keys and union variants with their share of the sample
+ * - `names`: names of the recursive objects, from nameRecursiveObjects
+ * - `scopes`: names of the recursive objects being rendered, innermost last — what `self` renders as
+ * - `definitions`: objects hoisted by the `definitions` option, in order of appearance
+ * - `references`: every place a hoisted object appears → the name it renders as
+ * - `referenced`: names rendered so far — the definitions the thumbnail needs
+ * - `defining`: the hoisted object whose definition is being rendered
+ */
+interface RenderContext {
+  maxDepth: number;
+  maxLineWidth: number;
+  frequencies: boolean;
+  collapsed: Set<ObjectShape>;
+  keptKeys: Map<ObjectShape, number>;
+  keptVariants: Map<VariedShape, number>;
+  hiddenValues: Set<ScalarShape>;
+  names: Map<ObjectShape, string>;
+  scopes: string[];
+  definitions: Array<{ name: string; shape: ObjectShape; depth: number }>;
+  references: Map<ObjectShape, string>;
+  referenced: Set<string>;
+  defining?: ObjectShape;
+}
+
+function createRenderContext(shape: Shape, options: ThumbOptions | undefined): RenderContext {
+  const ctx: RenderContext = {
+    maxDepth: options?.maxDepth ?? DEFAULT_MAX_DEPTH,
+    maxLineWidth: options?.maxLineWidth ?? DEFAULT_MAX_LINE_WIDTH,
+    frequencies: options?.frequencies ?? false,
+    collapsed: new Set(),
+    keptKeys: new Map(),
+    keptVariants: new Map(),
+    hiddenValues: new Set(),
+    names: new Map(),
+    scopes: [],
+    definitions: [],
+    references: new Map(),
+    referenced: new Set(),
+  };
+  const used = new Set(RESERVED_NAMES);
+  if (options?.definitions) hoistDefinitions(shape, ctx, used);
+  nameRecursiveObjects(shape, ctx, used);
+  return ctx;
+}
+
+/** Names a recursive object can't take: they'd read as another type */
+const RESERVED_NAMES = new Set(["Array", "Lines", "Map", "Set", "Date"]);
+
+/**
+ * Find the objects that appear more than once for the `definitions` option:
+ * objects with a few keys that are `shapesEqual` and render the same, so a
+ * name never hides a difference. Each is named like a recursive object, after
+ * the key it first appears under. Objects inside a repeat aren't counted
+ * again, since its definition describes them once; nor are objects holding a
+ * `self` shape of a recursive object around them, which only their place can
+ * name.
+ */
+function hoistDefinitions(shape: Shape, ctx: RenderContext, used: Set<string>): void {
+  const seen: Array<{ shape: ObjectShape; hint: string; depth: number; places: ObjectShape[] }> = [];
+  const flat = (s: Shape, depth: number) => renderShape(s, 0, ctx, depth, FLAT);
+  const visit = (s: Shape, hint: string, depth: number): void => {
+    switch (s.kind) {
+      case "array":
+        if (!isEmptyArray(s)) visit(s.children, singular(hint), depth + 1);
+        break;
+      case "map":
+        if (!isEmptyMap(s)) visit(s.values, singular(hint), depth + 1);
+        break;
+      case "varied":
+        for (const v of s.variants) visit(v, hint, depth);
+        break;
+      case "object":
+        if (s !== shape && Object.keys(s.keys).length >= MIN_DEFINITION_KEYS && !refersOut(s)) {
+          const text = flat(s, depth);
+          const same = seen.find(e => shapesEqual(e.shape, s) && flat(e.shape, e.depth) === text);
+          if (same) {
+            same.places.push(s);
+            break;
+          }
+          seen.push({ shape: s, hint, depth, places: [s] });
+        }
+        for (const [key, field] of Object.entries(s.keys)) visit(field.shape, key, depth + 1);
+        break;
+    }
+  };
+  visit(shape, "", 0);
+
+  for (const { shape: definition, hint, depth, places } of seen) {
+    if (places.length < 2) continue;
+    const name = claimName(typeName(hint), used);
+    ctx.definitions.push({ name, shape: definition, depth });
+    for (const place of places) ctx.references.set(place, name);
+  }
+}
+
+/** Does this shape hold a `self` shape of a recursive object around it? */
+function refersOut(shape: Shape): boolean {
+  switch (shape.kind) {
+    case "self":
+      return true;
+    case "object":
+      return !shape.recursive && Object.values(shape.keys).some(field => refersOut(field.shape));
+    case "array":
+      return refersOut(shape.children);
+    case "map":
+      return refersOut(shape.values);
+    case "varied":
+      return shape.variants.some(refersOut);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Name each recursive object after the key holding it, in the singular for
+ * array elements and map values (`comments` → `Comment`), or `Node` where
+ * there's no key to go by; `Node2`, `Node3`... when taken. One hoisted into
+ * a definition goes by the definition's name.
+ */
+function nameRecursiveObjects(shape: Shape, ctx: RenderContext, used: Set<string>): void {
+  const visit = (s: Shape, hint: string): void => {
+    switch (s.kind) {
+      case "array":
+        if (!isEmptyArray(s)) visit(s.children, singular(hint));
+        break;
+      case "map":
+        if (!isEmptyMap(s)) visit(s.values, singular(hint));
+        break;
+      case "varied":
+        for (const v of s.variants) visit(v, hint);
+        break;
+      case "object": {
+        const reference = ctx.references.get(s);
+        if (reference !== undefined) {
+          if (s.recursive) ctx.names.set(s, reference);
+          // Only the definition is rendered
+          if (!ctx.definitions.some(d => d.shape === s)) break;
+        } else if (s.recursive && !ctx.names.has(s)) {
+          ctx.names.set(s, claimName(typeName(hint), used));
+        }
+        for (const [key, field] of Object.entries(s.keys)) visit(field.shape, key);
+        break;
+      }
+    }
+  };
+  visit(shape, "");
+}
+
+/** `name`, or `name2`, `name3`... if it's taken; marked taken */
+function claimName(base: string, used: Set<string>): string {
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = `${base}${n}`;
+  used.add(name);
+  return name;
+}
+
+/** `comments` → `comment`, `replies` → `reply`, `boxes` → `box` */
+function singular(word: string): string {
+  if (/ies$/.test(word)) return word.slice(0, -3) + "y";
+  if (/(x|ch|sh|ss)es$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/** `file_entry` → `FileEntry`; `Node` for keys that make no name */
+function typeName(key: string): string {
+  const name = key
+    .split(/[^A-Za-z0-9]+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+  return /^[A-Z]/.test(name) ? name : "Node";
+}
+
+/** Width passed to render a shape on one line: nothing is too wide, so nothing breaks */
+const FLAT = Infinity;
+
+/**
+ * Lay out the parts of a union within `width` columns: on one line if it
+ * fits, otherwise one part per line, each after `| ` two columns in from the
+ * line the union started on. Undefined when some part doesn't fit on a line
+ * of its own either.
+ */
+function layoutUnion(parts: string[], indent: number, ctx: RenderContext, width: number): string | undefined {
+  const flat = parts.join(" | ");
+  if (flat.length <= width) return flat;
+
+  const pad = " ".repeat(indent + 2);
+  // Room for the `| ` and a trailing comma
+  const lineWidth = ctx.maxLineWidth - pad.length - 3;
+  if (parts[0].length > width || parts.slice(1).some(p => p.length > lineWidth)) return undefined;
+  return parts.map((p, i) => (i === 0 ? p : `${pad}| ${p}`)).join("\n");
+}
+
+/** Keys of an object that survive the budget pass, in insertion order */
+function visibleKeys(shape: ObjectShape, ctx: RenderContext): string[] {
+  const keys = Object.keys(shape.keys);
+  const keep = ctx.keptKeys.get(shape);
+  return keep === undefined ? keys : keys.slice(0, keep);
+}
+
+/** Variants of a union that survive the budget pass */
+function visibleVariants(shape: VariedShape, ctx: RenderContext): Shape[] {
+  const keep = ctx.keptVariants.get(shape);
+  return keep === undefined ? shape.variants : shape.variants.slice(0, keep);
+}
+
+/** "1 key", "12 keys" */
+function plural(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? "" : "s"}`;
+}
+
+/** Does this scalar render anything beyond its type and format? */
+function showsValueDetail(shape: ScalarShape): boolean {
+  return (
+    shape.examples !== undefined ||
+    shape.integer !== undefined ||
+    shape.minLength !== undefined ||
+    isEnumScalar(shape)
+  );
+}
+
+/**
+ * The type part of a scalar: `string<date>`, or with stats
+ * `integer(1..502)`, `number(0.1..0.9)`, `string(len 3-40)`.
+ * Formatted strings skip the length range — the format says more.
+ */
+function renderScalarType(shape: ScalarShape): string {
+  if (shape.format) return `${shape.type}<${shape.format}>`;
+
+  if (shape.integer !== undefined && shape.min !== undefined && shape.max !== undefined) {
+    const type = shape.integer ? "integer" : "number";
+    const range = shape.min === shape.max ? String(shape.min) : `${shape.min}..${shape.max}`;
+    return `${type}(${range})`;
+  }
+
+  if (shape.minLength !== undefined && shape.maxLength !== undefined) {
+    const range =
+      shape.minLength === shape.maxLength
+        ? String(shape.minLength)
+        : `${shape.minLength}-${shape.maxLength}`;
+    return `string(len ${range})`;
+  }
+
+  return shape.type;
+}
+
+/**
+ * Format a scalar with its format, stats and examples:
+ * `string<date> ("2024-01-01", …)`, `integer(1..502)`,
+ * as a literal union when it is an enum: `"open" | "closed"` (wrapped like a union),
+ * or as its one value when it is the tag of a tagged-union variant.
+ * Long example strings are cut to MAX_EXAMPLE_LENGTH characters.
+ */
+function renderScalar(shape: ScalarShape, indent: number, ctx: RenderContext, width: number): string {
+  if (shape.literal !== undefined) return JSON.stringify(shape.literal);
+  if (ctx.hiddenValues.has(shape)) {
+    return shape.format ? `${shape.type}<${shape.format}>` : shape.type;
+  }
+  if (isEnumScalar(shape)) {
+    const parts = shape.values!.map(v => (typeof v === "string" ? JSON.stringify(v) : String(v)));
+    return layoutUnion(parts, indent, ctx, width) ?? parts.join(" | ");
+  }
+
+  const type = renderScalarType(shape);
+  if (!shape.examples || shape.examples.length === 0) {
+    return type;
+  }
+
+  const values = shape.examples.map(v => (typeof v === "string" ? quoteString(v) : String(v)));
+  if (shape.moreExamples) values.push("…");
+  return `${type} (${values.join(", ")})`;
+}
+
+/** A string quoted as in JSON, cut to MAX_EXAMPLE_LENGTH characters with … */
+function quoteString(value: string): string {
+  if (value.length <= MAX_EXAMPLE_LENGTH) return JSON.stringify(value);
+  return `${JSON.stringify(value.slice(0, MAX_EXAMPLE_LENGTH - 1)).slice(0, -1)}…"`;
+}
+
+/** Number of sampled values a shape describes, if counted; a union's is its variants' */
+function countOf(shape: Shape): number | undefined {
+  if (shape.kind !== "varied") return shape.count;
+  let total = 0;
+  for (const v of shape.variants) {
+    const count = countOf(v);
+    if (count === undefined) return undefined;
+    total += count;
+  }
+  return total;
+}
+
+/**
+ * `62%`, or `<1%` / `>99%` for shares that would round to 0% / 100%. `rounded`
+ * is the share as apportioned among others that have to add up to 100%.
+ */
+function formatPercent(count: number, total: number, rounded = Math.round((count / total) * 100)): string {
+  const percent = (count / total) * 100;
+  if (percent > 0 && percent < 1) return "<1%";
+  if (percent > 99 && percent < 100) return ">99%";
+  return `${rounded}%`;
+}
+
+/**
+ * Whole percentages of `total` for each count that add up to 100: each is
+ * rounded down, and the points left over go to the largest remainders.
+ */
+function apportionPercents(counts: number[], total: number): number[] {
+  const exact = counts.map(c => (c / total) * 100);
+  const percents = exact.map(Math.floor);
+  const remainder = (i: number) => exact[i] - percents[i];
+  const order = counts.map((_, i) => i).sort((a, b) => remainder(b) - remainder(a));
+  let left = 100 - percents.reduce((sum, p) => sum + p, 0);
+  for (const i of order) {
+    if (left <= 0) break;
+    percents[i]++;
+    left--;
+  }
+  return percents;
+}
+
+/** `(62%)` after an optional key: the share of sampled objects that have it */
+function formatPresence(field: FieldShape, shape: ObjectShape, ctx: RenderContext): string {
+  if (!ctx.frequencies || field.count === undefined || shape.count === undefined) return "";
+  return `(${formatPercent(field.count, shape.count)})`;
+}
+
+/**
+ * Format the length portion of an array descriptor.
+ * - Known single length: "502"
+ * - Range with different min/max: "2-5"
+ * - Range with equal min/max: "3"
+ */
+function formatArrayLength(shape: ArrayShape): string {
+  if (shape.minLength !== undefined && shape.maxLength !== undefined) {
+    if (shape.minLength === shape.maxLength) {
+      return String(shape.minLength);
+    }
+    return `${shape.minLength}-${shape.maxLength}`;
+  }
+  return String(shape.length);
+}
+
+/** The size portion of a map descriptor, like formatArrayLength */
+function formatMapSize(shape: MapShape): string {
+  if (shape.minSize !== undefined && shape.maxSize !== undefined) {
+    if (shape.minSize === shape.maxSize) return String(shape.minSize);
+    return `${shape.minSize}-${shape.maxSize}`;
+  }
+  return String(shape.size);
 }
 
 /**
@@ -459,80 +2848,399 @@ function isEmptyArray(shape: ArrayShape): boolean {
  *
  * @param shape - The shape to render
  * @param indent - Current indentation level (number of spaces)
- * @param maxDepth - Maximum rendering depth
+ * @param ctx - Rendering state (depth limit, line width, budget collapses)
  * @param depth - Current rendering depth
+ * @param width - Columns left on the line the shape starts on; FLAT for one line
  */
-function renderShape(shape: Shape, indent: number, maxDepth: number, depth: number): string {
+function renderShape(shape: Shape, indent: number, ctx: RenderContext, depth: number, width: number): string {
   switch (shape.kind) {
     case "scalar":
-      return shape.type;
+      return renderScalar(shape, indent, ctx, width);
 
-    case "varied":
-      return shape.variants
-        .map(v => renderShape(v, indent, maxDepth, depth))
-        .join(" | ");
+    case "varied": {
+      const laidOut = layoutUnion(renderVariants(shape, indent, ctx, depth, FLAT), indent, ctx, width);
+      if (laidOut !== undefined) return laidOut;
+      // Some variant is too wide for a line of its own: joined where they
+      // stand if every line fits, else one per line all the same, those too
+      // wide broken where they stand
+      const joined = renderVariants(shape, indent, ctx, depth, width).join(" | ").split("\n");
+      if (joined[0].length <= width && joined.slice(1).every(line => line.length <= ctx.maxLineWidth)) {
+        return joined.join("\n");
+      }
+      const pad = " ".repeat(indent + 2);
+      const [first] = renderVariants(shape, indent, ctx, depth, width);
+      const rest = renderVariants(shape, indent + 2, ctx, depth, ctx.maxLineWidth - pad.length - 3).slice(1);
+      return [first, ...rest.map(p => `${pad}| ${p}`)].join("\n");
+    }
 
     case "array":
-      return renderArray(shape, indent, maxDepth, depth);
+      return renderArray(shape, indent, ctx, depth, width);
 
-    case "object":
-      return renderObject(shape, indent, maxDepth, depth);
+    case "map":
+      return renderMap(shape, indent, ctx, depth, width);
+
+    case "object": {
+      // Hoisted into a definition: by its name, except in the definition itself
+      // and once the budget pass has collapsed it
+      const reference = shape === ctx.defining || ctx.collapsed.has(shape) ? undefined : ctx.references.get(shape);
+      if (reference === undefined) return renderObject(shape, indent, ctx, depth, width);
+      ctx.referenced.add(reference);
+      return reference;
+    }
+
+    case "circular":
+      return `<circular ${shape.path}>`;
+
+    // Cut at maxDepth: an object, or the elements of an array
+    case "truncated":
+      if (shape.cut === "elements") return "...";
+      return shape.className ? `${shape.className} {...}` : "{...}";
+
+    // Another node of the recursive object it's in, by that object's name
+    case "self":
+      return ctx.scopes[ctx.scopes.length - 1] ?? "Node";
   }
 }
 
-function renderArray(shape: ArrayShape, indent: number, maxDepth: number, depth: number): string {
+/** The variants of a union as rendered, with their shares and `...N more` */
+function renderVariants(shape: VariedShape, indent: number, ctx: RenderContext, depth: number, width: number): string[] {
+  const shown = visibleVariants(shape, ctx);
+  const hidden = shape.variants.length - shown.length;
+  const total = ctx.frequencies ? countOf(shape) : undefined;
+  // Shares of every variant, shown or not, so a union's add up to 100%
+  const percents = total !== undefined ? apportionPercents(shape.variants.map(v => countOf(v)!), total) : [];
+  const parts = shown.map((v, i) => {
+    const part = renderShape(v, indent, ctx, depth, width);
+    if (total !== undefined) {
+      // The share follows each variant; one with parts of its own is
+      // parenthesized, so the share isn't read as its last part's
+      const compound =
+        (v.kind === "scalar" && part.includes(" | ")) ||
+        ((v.kind === "array" || v.kind === "map") && part.includes(" of "));
+      return `${compound ? `(${part})` : part}(${formatPercent(countOf(v)!, total, percents[i])})`;
+    }
+    // `Array(2) of string | null` reads as an array of string | null, so
+    // an array or map that other variants follow is parenthesized
+    const last = i === shown.length - 1 && hidden === 0;
+    return !last && (v.kind === "array" || v.kind === "map") && part.includes(" of ") ? `(${part})` : part;
+  });
+  if (hidden > 0) parts.push(`...${hidden} more`);
+  return parts;
+}
+
+function renderArray(shape: ArrayShape, indent: number, ctx: RenderContext, depth: number, width: number): string {
   const lenStr = formatArrayLength(shape);
+  // The records of NDJSON input, or a JavaScript collection
+  const name = shape.lines ? "Lines" : (shape.className ?? "Array");
 
   // Empty array
   if (isEmptyArray(shape)) {
-    return "Array(0)";
+    return `${name}(0)`;
   }
 
   // At depth limit → collapse children to "..."
-  if (depth >= maxDepth) {
-    return `Array(${lenStr}) of ...`;
+  if (depth >= ctx.maxDepth) {
+    return `${name}(${lenStr}) of ...`;
   }
 
-  const childStr = renderShape(shape.children, indent, maxDepth, depth + 1);
-  return `Array(${lenStr}) of ${childStr}`;
+  const prefix = `${name}(${lenStr}) of `;
+  return prefix + renderShape(shape.children, indent, ctx, depth + 1, width - prefix.length);
 }
 
-function renderObject(shape: ObjectShape, indent: number, maxDepth: number, depth: number): string {
-  const keys = Object.keys(shape.keys);
+/** `Map(2311) of string ("user_1", "user_2", …) → {name: string, ...}` */
+function renderMap(shape: MapShape, indent: number, ctx: RenderContext, depth: number, width: number): string {
+  const sizeStr = formatMapSize(shape);
+  if (isEmptyMap(shape)) return "Map(0)";
 
-  // Empty keys: either genuinely empty or depth-collapsed.
-  // At depth limit → show {...} to indicate truncation.
-  // Below depth limit → genuinely empty → show {}.
-  if (keys.length === 0) {
-    return depth >= maxDepth ? "{...}" : "{}";
+  const keyStr = renderShape(shape.keys, indent, ctx, depth + 1, FLAT);
+  if (depth >= ctx.maxDepth) {
+    return `Map(${sizeStr}) of ${keyStr} → ...`;
   }
 
-  // Single-line for compact objects (≤3 simple keys)
-  if (isCompactObject(shape)) {
-    const parts = keys.map(k => {
-      const field = shape.keys[k];
-      const opt = field.optional ? "?" : "";
-      const val = renderShape(field.shape, indent, maxDepth, depth + 1);
-      return `${k}${opt}: ${val}`;
-    });
-    return `{${parts.join(", ")}}`;
+  const prefix = `Map(${sizeStr}) of ${keyStr} → `;
+  return prefix + renderShape(shape.values, indent, ctx, depth + 1, width - prefix.length);
+}
+
+/**
+ * Render an object, after its name if it's recursive (`Node = {name: string, children: Array(2) of Node}`)
+ * and its class name if it's a class instance (`Point {x: number, y: number}`)
+ */
+function renderObject(shape: ObjectShape, indent: number, ctx: RenderContext, depth: number, width: number): string {
+  // A recursive object is named where it's described: `Node = {...}`
+  const name = shape.recursive ? ctx.names.get(shape) : undefined;
+  const prefix = (name ? `${name} = ` : "") + (shape.className ? `${shape.className} ` : "");
+  if (name) ctx.scopes.push(name);
+  const body = renderObjectBody(shape, indent, ctx, depth, width - prefix.length);
+  if (name) ctx.scopes.pop();
+  return prefix + body;
+}
+
+/** `{a: T, b?: T}` if it fits in `width`, otherwise one key per line */
+function renderObjectBody(shape: ObjectShape, indent: number, ctx: RenderContext, depth: number, width: number): string {
+  const allKeys = Object.keys(shape.keys);
+
+  // An object cut at maxDepth is a TruncatedShape, so no keys means empty
+  if (allKeys.length === 0) return "{}";
+
+  // Collapsed by the budget pass → keep only the key count
+  if (ctx.collapsed.has(shape)) {
+    return `{...${plural(allKeys.length, "key")}}`;
   }
 
-  // Multiline with 2-space indentation
+  const keys = visibleKeys(shape, ctx);
+  const hidden = allKeys.length - keys.length;
+  const more = hidden > 0 ? `...${plural(hidden, "more key")}` : undefined;
+
+  // `key?(62%): ` before each value
+  const labels = keys.map(k => {
+    const field = shape.keys[k];
+    const opt = field.optional ? `?${formatPresence(field, shape, ctx)}` : "";
+    return `${quoteKey(k)}${opt}: `;
+  });
+
+  // Single-line if it fits
+  const parts = keys.map((k, i) => labels[i] + renderShape(shape.keys[k].shape, indent, ctx, depth + 1, FLAT));
+  if (more) parts.push(more);
+  const flat = `{${parts.join(", ")}}`;
+  if (flat.length <= width) return flat;
+
+  // Multiline with 2-space indentation; each value gets what's left of its line
   const innerIndent = indent + 2;
   const pad = " ".repeat(innerIndent);
   const closePad = " ".repeat(indent);
 
-  const lines = keys.map(k => {
-    const field = shape.keys[k];
-    const opt = field.optional ? "?" : "";
-    const val = renderShape(field.shape, innerIndent, maxDepth, depth + 1);
-    return `${pad}${k}${opt}: ${val}`;
+  const lines = keys.map((k, i) => {
+    const comma = i < keys.length - 1 || more ? 1 : 0;
+    const room = ctx.maxLineWidth - innerIndent - labels[i].length - comma;
+    return pad + labels[i] + renderShape(shape.keys[k].shape, innerIndent, ctx, depth + 1, room);
   });
+  if (more) lines.push(`${pad}${more}`);
 
   return `{\n${lines.join(",\n")}\n${closePad}}`;
 }
 
+// ─── Budget ──────────────────────────────────────────────────────────────────
+
+/** Objects with more keys than this get their key list cut before being collapsed */
+const BUDGET_KEPT_KEYS = 6;
+/** Unions with more variants than this get their variant list cut */
+const BUDGET_KEPT_VARIANTS = 2;
+
+/** Size of a rendered thumbnail in the unit the budget is expressed in */
+function measure(text: string, unit: "chars" | "tokens"): number {
+  // ~4 characters per token is a good-enough estimate for type descriptions
+  return unit === "tokens" ? Math.ceil(text.length / 4) : text.length;
+}
+
+/**
+ * Plan the order in which subtrees get collapsed to fit a budget.
+ *
+ * Least informative detail goes first: the deepest level is exhausted
+ * before touching the one above it. Within a level, examples, enum
+ * literals and stats are dropped,
+ * then long unions are cut to their first variants, then long key lists are
+ * cut, then whole objects are folded into `{...N keys}` (widest first). A
+ * hoisted object is folded everywhere it appears at once, so its definition
+ * is left out rather than written collapsed.
+ */
+function planCollapse(shape: Shape, ctx: RenderContext): Array<() => void> {
+  const levels: Array<{
+    values: ScalarShape[];
+    unions: VariedShape[];
+    wide: ObjectShape[];
+    objects: ObjectShape[];
+  }> = [];
+  const seen = new Set<Shape>();
+
+  const visit = (s: Shape, depth: number): void => {
+    if (seen.has(s)) return;
+    seen.add(s);
+    const level = (levels[depth] ??= { values: [], unions: [], wide: [], objects: [] });
+
+    switch (s.kind) {
+      case "scalar":
+        if (showsValueDetail(s)) level.values.push(s);
+        break;
+      case "varied":
+        if (s.variants.length > BUDGET_KEPT_VARIANTS) level.unions.push(s);
+        for (const v of s.variants) visit(v, depth);
+        break;
+      case "array":
+        if (!isEmptyArray(s) && depth < ctx.maxDepth) visit(s.children, depth + 1);
+        break;
+      case "map":
+        if (isEmptyMap(s)) break;
+        if (s.keys.kind === "scalar" && showsValueDetail(s.keys)) level.values.push(s.keys);
+        if (depth < ctx.maxDepth) visit(s.values, depth + 1);
+        break;
+      case "object": {
+        const keys = Object.keys(s.keys);
+        // Hoisted objects are described once, in their definition
+        if (keys.length === 0 || (ctx.references.has(s) && !ctx.definitions.some(d => d.shape === s))) break;
+        if (keys.length > BUDGET_KEPT_KEYS) level.wide.push(s);
+        level.objects.push(s);
+        for (const k of keys) visit(s.keys[k].shape, depth + 1);
+        break;
+      }
+      case "circular":
+      case "truncated":
+      case "self":
+        break;
+    }
+  };
+  visit(shape, 0);
+
+  const keyCount = (o: ObjectShape) => Object.keys(o.keys).length;
+  const placesOf = (o: ObjectShape): ObjectShape[] => {
+    const name = ctx.references.get(o);
+    if (name === undefined) return [o];
+    return [...ctx.references].filter(([, n]) => n === name).map(([place]) => place);
+  };
+  const steps: Array<() => void> = [];
+  for (let depth = levels.length - 1; depth >= 0; depth--) {
+    const level = levels[depth];
+    if (!level) continue;
+    if (level.values.length > 0) {
+      steps.push(() => level.values.forEach(v => ctx.hiddenValues.add(v)));
+    }
+    for (const u of level.unions) steps.push(() => ctx.keptVariants.set(u, BUDGET_KEPT_VARIANTS));
+    for (const o of level.wide) steps.push(() => ctx.keptKeys.set(o, BUDGET_KEPT_KEYS));
+    const objects = [...level.objects].sort((a, b) => keyCount(b) - keyCount(a));
+    for (const o of objects) steps.push(() => placesOf(o).forEach(p => ctx.collapsed.add(p)));
+  }
+  return steps;
+}
+
+/**
+ * Render the whole thumbnail: the definitions hoisted by the `definitions`
+ * option, one per line, then a blank line and the shape referring to them.
+ * Only definitions something rendered refers to are written — the budget
+ * pass may have collapsed every place one appeared.
+ */
+function renderDocument(shape: Shape, ctx: RenderContext): string {
+  ctx.referenced.clear();
+  const body = renderShape(shape, 0, ctx, 0, ctx.maxLineWidth);
+  if (ctx.definitions.length === 0) return body;
+
+  // A definition can refer to another, so repeat until no new name turns up
+  const texts = new Map<string, string>();
+  for (let found = true; found; ) {
+    found = false;
+    for (const { name, shape: definition, depth } of ctx.definitions) {
+      if (texts.has(name) || !ctx.referenced.has(name)) continue;
+      ctx.defining = definition;
+      // A recursive object is named in front of it already
+      const prefix = definition.recursive ? "" : `${name} = `;
+      texts.set(name, prefix + renderShape(definition, 0, ctx, depth, ctx.maxLineWidth - prefix.length));
+      ctx.defining = undefined;
+      found = true;
+    }
+  }
+  if (texts.size === 0) return body;
+  const definitions = ctx.definitions.filter(d => texts.has(d.name)).map(d => texts.get(d.name));
+  return `${definitions.join("\n")}\n\n${body}`;
+}
+
+/**
+ * Render a shape with the fewest collapse steps that make the output fit the
+ * budget. Each step only takes detail away, so the count is found by
+ * bisection — a few renderings rather than one per step. If everything has
+ * been collapsed and it still doesn't fit, the most collapsed rendering is
+ * returned.
+ */
+function renderWithinBudget(
+  shape: Shape,
+  ctx: RenderContext,
+  budget: number,
+  unit: "chars" | "tokens"
+): string {
+  const out = renderDocument(shape, ctx);
+  if (measure(out, unit) <= budget) return out;
+
+  const steps = planCollapse(shape, ctx);
+  const renderAfter = (count: number): string => {
+    ctx.collapsed.clear();
+    ctx.keptKeys.clear();
+    ctx.keptVariants.clear();
+    ctx.hiddenValues.clear();
+    for (const step of steps.slice(0, count)) step();
+    return renderDocument(shape, ctx);
+  };
+
+  // Fewest steps that fit lies in (low, high]
+  let low = 0;
+  let high = steps.length;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (measure(renderAfter(middle), unit) <= budget) high = middle;
+    else low = middle;
+  }
+  return renderAfter(high);
+}
+
+// ─── Accumulation ────────────────────────────────────────────────────────────
+
+/**
+ * A running shape of many documents observed one at a time — webhook
+ * payloads, log records, API responses polled over time.
+ *
+ * Each document's shape is merged into the total, so optional flags, unions
+ * and length ranges reflect every document added, not a sample: a key missing
+ * from one payload is optional, and an array's range spans all its lengths.
+ *
+ * @example
+ * ```ts
+ * const acc = new ShapeAccumulator();
+ * acc.add({id: 1, tags: ["a"]});
+ * acc.add({id: 2, tags: ["a", "b"], admin: true});
+ * acc.thumb()
+ * // → '{id: number, tags: Array(1-2) of string, admin?: boolean}'
+ * acc.count // → 2
+ * ```
+ */
+export class ShapeAccumulator {
+  private readonly options?: ThumbOptions;
+  private readonly ctx: InferContext;
+  private merged: Shape | undefined;
+  private documents = 0;
+
+  /**
+   * @param options - Inference options applied to every document (sampleSize,
+   *   maxDepth, examples, formats, enums, stats, ...) and default render options
+   */
+  constructor(options?: ThumbOptions) {
+    this.options = options;
+    this.ctx = createInferContext(options);
+  }
+
+  /** Number of documents added so far */
+  get count(): number {
+    return this.documents;
+  }
+
+  /** Merge one document into the running shape */
+  add(value: unknown): void {
+    const shape = _inferShape(value, this.ctx, 0);
+    this.merged = this.merged ? mergeShapes(this.merged, shape, this.ctx) : shape;
+    this.documents++;
+  }
+
+  /** The shape of every document added so far, or undefined before the first */
+  shape(): Shape | undefined {
+    return this.merged;
+  }
+
+  /**
+   * Render the running shape, or undefined before the first document.
+   *
+   * @param options - Render options for this call, over the constructor's
+   */
+  thumb(options?: ThumbOptions): string | undefined {
+    if (!this.merged) return undefined;
+    return renderThumb(this.merged, { ...this.options, ...options });
+  }
+}
+
 // ─── Main API ────────────────────────────────────────────────────────────────
 
 /**
@@ -542,7 +3250,7 @@ function renderObject(shape: ObjectShape, indent: number, maxDepth: number, dept
  * who need to write jq queries against data they can't see.
  *
  * @param value - Any JSON-compatible value
- * @param options - sampleSize (default 100), maxDepth (default 8)
+ * @param options - sampleSize (default 100), maxDepth (default 8), budget (default unlimited)
  * @returns Compact string describing the type structure
  *
  * @example
@@ -561,7 +3269,25 @@ function renderObject(shape: ObjectShape, indent: number, maxDepth: number, dept
  * ```
  */
 export function thumb(value: unknown, options?: ThumbOptions): string {
-  const maxDepth = options?.maxDepth ?? DEFAULT_MAX_DEPTH;
-  const shape = inferShape(value, options);
-  return renderShape(shape, 0, maxDepth, 0);
+  return renderThumb(inferShape(value, options), options);
+}
+
+/**
+ * Render a Shape AST (from `inferShape` or `inferShapeFromStream`) to the
+ * thumbnail string format. `thumb(value)` is `renderThumb(inferShape(value))`.
+ *
+ * @param shape - The shape to render
+ * @param options - maxDepth (default 8), budget (default unlimited), mode (default "thumb")
+ * @returns Compact string describing the type structure
+ */
+export function renderThumb(shape: Shape, options?: ThumbOptions): string {
+  if (options?.mode === "paths") {
+    return renderJqPaths(jqPaths(shape, options));
+  }
+
+  const ctx = createRenderContext(shape, options);
+  if (options?.budget !== undefined) {
+    return renderWithinBudget(shape, ctx, options.budget, options.budgetUnit ?? "chars");
+  }
+  return renderDocument(shape, ctx);
 }
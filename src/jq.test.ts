@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { thumb, inferShape, jqPaths } from './index.js';
+
+/** jqPaths of a value, as "path: type" strings with an optional marker */
+function paths(value: unknown, maxDepth?: number): string[] {
+  return jqPaths(inferShape(value), { maxDepth }).map(
+    p => `${p.path}: ${p.type}${p.optional ? ' (optional)' : ''}`
+  );
+}
+
+describe('jqPaths', () => {
+  it('root scalar → "."', () => {
+    assert.deepEqual(paths(42), ['.: number']);
+  });
+
+  it('root array → ".[]"', () => {
+    assert.deepEqual(paths(['a', 'b']), ['.[]: string']);
+  });
+
+  it('nested objects and arrays', () => {
+    const data = {
+      results: [
+        { id: 1, tags: ['a', 'b'], owner: { name: 'x' } },
+        { id: 2, tags: ['c'], owner: { name: 'y' } },
+      ],
+      total: 2,
+    };
+    assert.deepEqual(paths(data), [
+      '.results[].id: number',
+      '.results[].tags[]: string',
+      '.results[].owner.name: string',
+      '.total: number',
+    ]);
+  });
+
+  it('marks paths through optional keys, and guards iteration with []?', () => {
+    const data = [{ id: 1, tags: ['a'], meta: { ip: 'x' } }, { id: 2 }];
+    assert.deepEqual(paths(data), [
+      '.[].id: number',
+      '.[].tags[]?: string (optional)',
+      '.[].meta.ip: string (optional)',
+    ]);
+  });
+
+  it('guards key access with ? when the parent is sometimes not an object', () => {
+    const data = [{ score: 1 }, { score: { value: 2 } }];
+    assert.deepEqual(paths(data), ['.[].score: number', '.[].score.value?: number']);
+  });
+
+  it('does not guard key access when the parent is only sometimes null', () => {
+    assert.deepEqual(paths([{ a: null }, { a: { b: 1 } }]), ['.[].a: null', '.[].a.b: number']);
+  });
+
+  it('quotes keys that are not jq identifiers', () => {
+    assert.deepEqual(paths({ 'content-type': 'x', 'a b': [{ '1st': true }] }), [
+      '.["content-type"]: string',
+      '.["a b"][]["1st"]: boolean',
+    ]);
+  });
+
+  it('quotes keys that are jq keywords', () => {
+    assert.deepEqual(paths({ if: 1, end: [{ and: true }], ifs: null }), [
+      '.["if"]: number',
+      '.["end"][]["and"]: boolean',
+      '.ifs: null',
+    ]);
+  });
+
+  it('lists varied leaves with all their types', () => {
+    assert.deepEqual(paths({ v: [1, 'a', null] }), ['.v[]: number | string | null']);
+  });
+
+  it('lists empty containers as leaves', () => {
+    assert.deepEqual(paths({ a: [], o: {} }), ['.a: Array(0)', '.o: {}']);
+  });
+
+  it('stops at maxDepth', () => {
+    assert.deepEqual(paths({ a: { b: { c: 1 } }, l: [[1, 2]] }, 1), ['.a: {...}', '.l: Array(1) of ...']);
+  });
+
+  it('lists the nodes of a recursive type as a leaf pointing back to it', () => {
+    const tree = { name: 'a', children: [{ name: 'b', children: [] }] };
+    assert.deepEqual(paths({ tree }), ['.tree.name: string', '.tree.children[]: <recursive .tree>']);
+  });
+
+  it('lists the variants of a tagged union together', () => {
+    const events = [
+      { type: 'click', x: 1 },
+      { type: 'buy', sku: 'a', x: 2 },
+      { type: 'click', x: 3 },
+    ];
+    assert.deepEqual(paths(events), [
+      '.[].type: "click" | "buy"',
+      '.[].x: number',
+      '.[].sku: string (optional)',
+    ]);
+  });
+
+  it('lists map keys with to_entries and iterates map values with []', () => {
+    const users: Record<string, unknown> = {};
+    for (let i = 1; i <= 5; i++) users[`u${i}`] = { name: 'x' };
+    assert.deepEqual(paths({ users }), [
+      '.users | to_entries[].key: string ("u1", "u2", "u3", …)',
+      '.users[].name: string',
+    ]);
+    assert.deepEqual(paths([{ users }, {}]), [
+      '.[].users | objects | to_entries[].key: string ("u1", "u2", "u3", …) (optional)',
+      '.[].users[]?.name: string (optional)',
+    ]);
+  });
+
+  it('thumb mode "paths" renders one path per line', () => {
+    const data = [{ id: 1, inStock: true }, { id: 2 }];
+    assert.equal(thumb(data, { mode: 'paths' }), '.[].id: number\n.[].inStock: boolean (optional)');
+  });
+});
@@ -0,0 +1,221 @@
+// jq paths — list every leaf of a Shape as a ready-to-use jq path.
+//
+//   .results[].id: number
+//   .results[].tags[]?: string (optional)
+//   .daily | to_entries[].key: string<date>
+
+import {
+  renderThumb,
+  type ArrayShape,
+  type FieldShape,
+  type MapShape,
+  type ObjectShape,
+  type Shape,
+  type ThumbOptions,
+} from "./index.js";
+import { DEFAULT_MAX_DEPTH, isEmptyArray, isEmptyMap } from "./shapes.js";
+
+// ─── Type Definitions ────────────────────────────────────────────────────────
+
+/** A leaf of a shape, addressed in jq syntax */
+export type JqPath = {
+  /** jq path expression, e.g. `.results[].tags[]` */
+  path: string;
+  /** Rendered type of the value(s) at this path, e.g. `string | null` */
+  type: string;
+  /** true if a key along the path was absent in some sampled elements */
+  optional: boolean;
+};
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Keys that can be written as `.key` in jq, unless they are a keyword */
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Words jq reads as keywords (and `not`), which older versions reject after a `.` */
+const JQ_KEYWORDS = new Set([
+  "__loc__", "and", "as", "catch", "def", "elif", "else", "end", "foreach", "if",
+  "import", "include", "label", "module", "not", "or", "reduce", "then", "try",
+]);
+
+/** Keys longer than this are cut short in a thumbnail, ending in `…` */
+const MAX_KEY_LENGTH = 64;
+
+// ─── Path Building ───────────────────────────────────────────────────────────
+
+/** Append a segment, giving a bare `[...]` segment at the root its leading dot */
+export function appendSegment(path: string, segment: string): string {
+  if (path === "" && segment.startsWith("[")) return `.${segment}`;
+  return path + segment;
+}
+
+/** Can jq read this key as `.key`? */
+function isBareKey(key: string): boolean {
+  return IDENTIFIER.test(key) && !JQ_KEYWORDS.has(key);
+}
+
+/** `.name` for identifier keys, `["content-type"]` and `["if"]` for everything else */
+export function keySegment(key: string): string {
+  return isBareKey(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+}
+
+/**
+ * A key as a thumbnail shows it: bare when jq can read it as `.key`, JSON-quoted
+ * otherwise (`"content-type"`, `"@timestamp"`, `"2024"`, `""`, `"if"`), with control
+ * characters escaped. Keys longer than 64 characters are cut: `"aaa…"`.
+ */
+export function quoteKey(key: string): string {
+  if (isBareKey(key) && key.length <= MAX_KEY_LENGTH) return key;
+  if (key.length <= MAX_KEY_LENGTH) return JSON.stringify(key);
+  // Don't split a surrogate pair
+  let end = MAX_KEY_LENGTH - 1;
+  if (/[\uD800-\uDBFF]/.test(key[end - 1])) end--;
+  return JSON.stringify(`${key.slice(0, end)}…`);
+}
+
+/**
+ * List every leaf path of a shape in jq syntax.
+ *
+ * - Object keys → `.key`, or `["weird key"]` when not a jq identifier or a keyword
+ * - Array elements → `[]`
+ * - Map values → `[]`, and map keys as a leaf of their own: `.daily | to_entries[].key`
+ * - `?` follows a segment when that access can fail on some sampled values:
+ *   `.key?` when the parent isn't always an object (or null), `[]?` when the
+ *   array isn't always there (an optional key on the way, or other types)
+ * - A path whose value is sometimes a scalar and sometimes a container is
+ *   listed as a leaf with the scalar types, and descended into as well
+ * - The variants of a tagged union are listed together: a key missing from
+ *   some variants is optional, and the tag's path lists every tag value
+ * - The nodes of tree-shaped data (a recursive object) are listed once, down
+ *   to where they repeat: `.children[]: <recursive .>` — `recurse(.children[])`
+ *   walks them all
+ * - The records of NDJSON input (`Lines(N) of ...`) are jq's inputs, one per
+ *   line, so their paths start at the record: `.id`, not `.[].id`
+ *
+ * @param shape - Shape from `inferShape` / `inferShapeFromStream`
+ * @param options - maxDepth (default 8): containers at this depth are leaves
+ * @returns Leaf paths in key order, depth first
+ *
+ * @example
+ * ```ts
+ * jqPaths(inferShape({results: [{id: 1, tags: ["a"]}]}))
+ * // → [{path: ".results[].id", type: "number", optional: false},
+ * //    {path: ".results[].tags[]", type: "string", optional: false}]
+ * ```
+ */
+export function jqPaths(shape: Shape, options?: ThumbOptions): JqPath[] {
+  const maxDepth = options?.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const out: JqPath[] = [];
+  if (shape.kind === "array" && shape.lines && !isEmptyArray(shape) && maxDepth > 0) {
+    collectPaths(shape.children, "", false, maxDepth, 1, [], out);
+  } else {
+    collectPaths(shape, "", false, maxDepth, 0, [], out);
+  }
+  return out;
+}
+
+function collectPaths(
+  shape: Shape,
+  path: string,
+  optional: boolean,
+  maxDepth: number,
+  depth: number,
+  nodes: string[],
+  out: JqPath[]
+): void {
+  const variants = shape.kind === "varied" ? shape.variants : [shape];
+
+  // Values that end here: scalars, circular references, nodes of a recursive
+  // object, empty containers, values cut at maxDepth when inferred,
+  // containers at the depth limit
+  const leaves: string[] = [];
+  const containers: Shape[] = [];
+  for (const v of variants) {
+    if (v.kind === "scalar" || v.kind === "circular" || v.kind === "truncated") {
+      leaves.push(renderThumb(v));
+    } else if (v.kind === "self") {
+      leaves.push(`<recursive ${nodes[nodes.length - 1] ?? "."}>`);
+    } else if (v.kind === "array" && (isEmptyArray(v) || v.children.kind === "truncated")) {
+      leaves.push(renderThumb(v));
+    } else if (v.kind === "map" && isEmptyMap(v)) {
+      leaves.push("Map(0)");
+    } else if (v.kind === "object" && Object.keys(v.keys).length === 0) {
+      leaves.push("{}");
+    } else if (depth >= maxDepth) {
+      leaves.push(v.kind === "object" ? "{...}" : renderThumb(v, { maxDepth: 0 }));
+    } else {
+      containers.push(v);
+    }
+  }
+
+  if (leaves.length > 0) {
+    out.push({ path: path || ".", type: [...new Set(leaves)].join(" | "), optional });
+  }
+
+  // Several objects (a tagged union) are listed key by key, so each path appears once
+  const objects = containers.filter((c): c is ObjectShape => c.kind === "object");
+  if (objects.length > 0) {
+    // Key access fails on anything but objects and null
+    const guard = variants.some(
+      v => v.kind !== "object" && !(v.kind === "scalar" && v.type === "null")
+    );
+    // The nodes inside a recursive object point back to its path
+    const scope = objects.some(o => o.recursive) ? [...nodes, path || "."] : nodes;
+    for (const [key, field] of combineKeys(objects)) {
+      const next = appendSegment(path, keySegment(key) + (guard ? "?" : ""));
+      collectPaths(field.shape, next, optional || field.optional, maxDepth, depth + 1, scope, out);
+    }
+  }
+
+  for (const c of containers) {
+    if (c.kind === "array") {
+      // Iteration fails on anything but arrays — including a missing (null) value
+      const guard = optional || variants.some(v => v.kind !== "array");
+      const next = appendSegment(path, guard ? "[]?" : "[]");
+      collectPaths(c.children, next, optional, maxDepth, depth + 1, nodes, out);
+    }
+
+    if (c.kind === "map") {
+      // to_entries fails on anything but objects, so filter with `objects` first
+      const guard = optional || variants.some(v => v.kind !== "map");
+      const keys = `${guard ? "objects | " : ""}to_entries[].key`;
+      out.push({ path: path ? `${path} | ${keys}` : keys, type: renderThumb(c.keys), optional });
+      collectPaths(c.values, appendSegment(path, guard ? "[]?" : "[]"), optional, maxDepth, depth + 1, nodes, out);
+    }
+  }
+}
+
+/**
+ * The keys of several object variants, in order of first appearance. A key is
+ * optional if some variant lacks it, and its shape unites the variants' shapes.
+ */
+function combineKeys(objects: ObjectShape[]): Map<string, FieldShape> {
+  if (objects.length === 1) return new Map(Object.entries(objects[0].keys));
+
+  const combined = new Map<string, FieldShape>();
+  for (const o of objects) {
+    for (const [key, field] of Object.entries(o.keys)) {
+      const seen = combined.get(key);
+      if (!seen) {
+        combined.set(key, { ...field });
+        continue;
+      }
+      const variants = [seen.shape, field.shape].flatMap(s => (s.kind === "varied" ? s.variants : [s]));
+      seen.shape = { kind: "varied", variants };
+      seen.optional = seen.optional || field.optional;
+    }
+  }
+  for (const [key, field] of combined) {
+    if (!objects.every(o => key in o.keys)) field.optional = true;
+  }
+  return combined;
+}
+
+/**
+ * Render jq paths one per line, e.g. `.results[].inStock: boolean (optional)`.
+ */
+export function renderJqPaths(paths: JqPath[]): string {
+  return paths
+    .map(p => `${p.path}: ${p.type}${p.optional ? " (optional)" : ""}`)
+    .join("\n");
+}
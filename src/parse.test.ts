@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { thumb, inferShape, parseThumb, diffShapes, renderThumb, type ThumbOptions } from './index.js';
+
+const events = [
+  { type: 'click', x: 1, at: '2024-01-01T10:00:00Z' },
+  { type: 'purchase', sku: 'a-1', amount: 3, at: '2024-01-02T11:00:00Z' },
+  { type: 'click', x: 5, at: '2024-01-03T12:00:00Z' },
+];
+const users: Record<string, unknown> = {};
+for (let i = 0; i < 6; i++) users[`user_${i}`] = { name: `u${i}`, roles: i % 2 ? ['admin'] : [] };
+
+class Point {
+  constructor(public x: number) {}
+}
+const cyclic: Record<string, unknown> = {
+  at: new Date(0),
+  big: 1n,
+  ids: new Set([1]),
+  byId: new Map([[1, new Point(1)]]),
+};
+cyclic.self = cyclic;
+
+/** Values covering every construct of the grammar */
+const samples: Array<[string, unknown, ThumbOptions?]> = [
+  ['scalars', [1, 'a', true, null]],
+  ['nested objects', { user: { name: 'a', address: { city: 'x', zip: 1 } }, score: 4.5 }],
+  ['multiline objects', { a: 1, b: 'x', c: true, d: null, e: [1, 2] }],
+  ['optional keys', [{ id: 1, admin: true }, { id: 2 }]],
+  ['array length ranges', [[1], [1, 2, 3], []]],
+  ['empty containers', { a: [], o: {} }],
+  ['arrays in unions', [{ log: [1, 2] }, { log: null }, { log: 'x' }]],
+  ['tagged unions', { events, more: [...events, null] }],
+  ['maps', { users }],
+  ['formats', ['2024-01-01', '2024-02-01']],
+  ['enums', ['open', 'closed', 'open', 7], { enums: 3 }],
+  ['stats', [{ n: 1, f: 0.5, s: 'ab' }, { n: -3, f: 2, s: 'abcd' }], { stats: true }],
+  ['examples', [{ s: 'a "quoted", string', n: 1 }, { s: 'b', n: 2 }, { s: 'c', n: 3 }], { examples: 2 }],
+  ['maxDepth', { a: { b: { c: 1 } }, l: [[1]] }, { maxDepth: 1 }],
+  ['wrapped lines', { events, more: [...events, null], e: ['aa', 'bb', 'cc', 'aa'] }, { maxLineWidth: 30, enums: 3 }],
+  ['cycles and JavaScript values', cyclic, { jsTypes: true }],
+  ['recursive types', { tree: { name: 'a', children: [{ name: 'b', children: [] }] }, posts: [{ id: 1, replies: [{ id: 2, replies: [] }] }] }],
+  ['definitions', { by: { id: 1, login: 'a' }, posts: [{ by: { id: 2, login: 'b' }, replies: [{ by: { id: 3, login: 'c' }, replies: [] }] }] }, { definitions: true }],
+  ['recursive types with frequencies', { v: 1, next: { v: 2, next: { v: 3, next: null } } }, { frequencies: true }],
+  ['definitions with frequencies', [{ a: { x: 1, y: 2 }, b: { x: 1, y: 2 } }, { a: 5, b: { x: 3, y: 4 } }], { definitions: true, frequencies: true }],
+  ['frequencies', { events: [...events, { type: 'click' }], mixed: [1, 2, 'a', [1], null, 'open', 'open'] }, { frequencies: true, enums: 2 }],
+];
+
+describe('parseThumb', () => {
+  for (const [name, value, options] of samples) {
+    it(`round-trips ${name}`, () => {
+      const text = thumb(value, options);
+      const parsed = parseThumb(text);
+      assert.equal(renderThumb(parsed, options), text);
+      assert.deepEqual(diffShapes(parsed, inferShape(value, options), options), [], text);
+    });
+  }
+
+  it('reads lengths, optional keys and unions', () => {
+    assert.deepEqual(parseThumb('{id: number, tags?: Array(1-3) of string | null}'), {
+      kind: 'object',
+      keys: {
+        id: { shape: { kind: 'scalar', type: 'number' }, optional: false },
+        tags: {
+          shape: {
+            kind: 'array',
+            length: -1,
+            minLength: 1,
+            maxLength: 3,
+            children: {
+              kind: 'varied',
+              variants: [
+                { kind: 'scalar', type: 'string' },
+                { kind: 'scalar', type: 'null' },
+              ],
+            },
+          },
+          optional: true,
+        },
+      },
+    });
+  });
+
+  it('reads tags as literals and finds the discriminator', () => {
+    const shape = parseThumb('{type: "a", x: number} | {type: "b"}');
+    assert.equal(shape.kind === 'varied' && shape.discriminator, 'type');
+  });
+
+  it('reads values cut by maxDepth or a budget as truncated', () => {
+    assert.deepEqual(parseThumb('{a: {...}, b: {...3 keys}, c: Array(1-4) of ...}'), {
+      kind: 'object',
+      keys: {
+        a: { shape: { kind: 'truncated', cut: 'keys', size: -1 }, optional: false },
+        b: { shape: { kind: 'truncated', cut: 'keys', size: 3 }, optional: false },
+        c: {
+          shape: {
+            kind: 'array',
+            length: -1,
+            minLength: 1,
+            maxLength: 4,
+            children: { kind: 'truncated', cut: 'elements', size: -1, minSize: 1, maxSize: 4 },
+          },
+          optional: false,
+        },
+      },
+    });
+  });
+
+  it('drops keys and variants cut by a budget', () => {
+    assert.deepEqual(Object.keys((parseThumb('{a: number, ...5 more keys}') as { keys: object }).keys), ['a']);
+    assert.deepEqual(parseThumb('string | number | ...2 more'), {
+      kind: 'varied',
+      variants: [
+        { kind: 'scalar', type: 'string' },
+        { kind: 'scalar', type: 'number' },
+      ],
+    });
+  });
+
+  it('throws a SyntaxError with the position on anything else', () => {
+    assert.throws(() => parseThumb('Array(3) of '), /Expected a type at position 12/);
+    assert.throws(() => parseThumb('{a: number'), /Expected "," at position 10/);
+    assert.throws(() => parseThumb('string<color>'), /Unknown string format/);
+    assert.throws(() => parseThumb('number number'), /Unexpected "n" at position 7/);
+    assert.throws(() => parseThumb('{next: Node}'), /Unknown type Node at position 7/);
+    assert.throws(() => parseThumb('User = {id: number}\n\nstring number'), /Unexpected "n" at position 28/);
+  });
+});
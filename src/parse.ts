@@ -0,0 +1,451 @@
+// Thumbnail parser — read a rendered thumbnail back into a Shape AST.
+//
+//   parseThumb("Array(2-5) of {id: number, tags?: Array(0) | null}")
+//
+// The parser accepts exactly what renderThumb emits, single-line or
+// multiline, and throws a SyntaxError (with the character offset) on
+// anything else.
+
+import type { FieldShape, ObjectShape, ScalarShape, Shape, StringFormat, TruncatedShape } from "./index.js";
+import { tagOf } from "./shapes.js";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const FORMATS: StringFormat[] = ["date-time", "date", "uuid", "url", "email", "numeric"];
+
+const NUMBER = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/;
+/** The `1..502` of `integer(1..502)` */
+const NUMBER_RANGE = /^(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\.\.(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)$/;
+/** The `3-40` of `Array(3-40)`, `string(len 3-40)` */
+const COUNT_RANGE = /^(\d+)(?:-(\d+))?$/;
+/** The `(62%)` share after a union variant or an optional key */
+const FREQUENCY = /^\((<1|>99|\d+)%\)/;
+/**
+ * A class name before a collection's size or an instance's keys: `Set(3)`,
+ * `Point {x: number}` — not a type name before its share, `Node(33%)`
+ */
+const CLASS_NAME = /^([A-Z][\w$]*)(?=\(\d+(?:-\d+)?\)| \{)/;
+/** The `Node = ` naming a recursive object where it's described */
+const DEFINITION = /^([A-Z][\w$]*) = /;
+/** A name standing for the enclosing recursive object again */
+const TYPE_NAME = /^[A-Z][\w$]*/;
+
+// ─── Parser ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a thumbnail (as rendered by `thumb` / `renderThumb`) back into a shape.
+ *
+ * `parseThumb(thumb(x))` describes the same structure as `inferShape(x)`:
+ * same kinds, types, keys, optional flags, formats, tags and enums, and the
+ * length ranges, stats and examples that were rendered. What the text doesn't
+ * carry is lost: objects collapsed to `{...}` or `{...N keys}` come back as
+ * truncated shapes (of unknown size for `{...}`), and variants and keys cut
+ * by a budget are dropped. Shares
+ * rendered with the `frequencies` option come back as counts out of 100.
+ * `Node = {...}` reads as a recursive object, and `Node` inside it as a
+ * reference back to it. Definitions above the thumbnail (the `definitions`
+ * option) are read in place of every name that refers to them.
+ *
+ * @param text - A rendered thumbnail
+ * @returns Shape AST
+ * @throws SyntaxError if the text isn't a thumbnail
+ *
+ * @example
+ * ```ts
+ * parseThumb('{id: number, tags?: Array(1-3) of string}')
+ * // → {kind: "object", keys: {id: {...}, tags: {shape: {kind: "array", length: -1,
+ * //     minLength: 1, maxLength: 3, children: {kind: "scalar", type: "string"}}, optional: true}}}
+ * ```
+ */
+export function parseThumb(text: string): Shape {
+  let pos = 0;
+  // Names of the objects being read, innermost last; those referred to inside are recursive
+  const scopes: Array<{ name: string; referred: boolean }> = [];
+  // Where each definition hoisted by the `definitions` option starts, to read it again where it's used
+  const definitions = new Map<string, number>();
+
+  const fail = (message: string): never => {
+    throw new SyntaxError(`${message} at position ${pos}`);
+  };
+
+  const skipWhitespace = (): void => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const startsWith = (token: string): boolean => text.startsWith(token, pos);
+
+  const expect = (token: string): void => {
+    if (!startsWith(token)) fail(`Expected ${JSON.stringify(token)}`);
+    pos += token.length;
+  };
+
+  /** Read a JSON string literal, quotes included */
+  const readString = (): string => {
+    const start = pos;
+    pos++; // opening quote
+    while (pos < text.length && text[pos] !== '"') pos += text[pos] === "\\" ? 2 : 1;
+    if (pos >= text.length) fail("Unterminated string");
+    pos++;
+    return JSON.parse(text.slice(start, pos)) as string;
+  };
+
+  const readNumber = (): number => {
+    const match = NUMBER.exec(text.slice(pos));
+    if (!match) return fail("Expected a number");
+    pos += match[0].length;
+    return Number(match[0]);
+  };
+
+  /** Read a `(62%)` share as a count out of 100; `<1%` and `>99%` as 0.5 and 99.5 */
+  const readFrequency = (): number | undefined => {
+    const match = FREQUENCY.exec(text.slice(pos));
+    if (!match) return undefined;
+    pos += match[0].length;
+    if (match[1] === "<1") return 0.5;
+    if (match[1] === ">99") return 99.5;
+    return Number(match[1]);
+  };
+
+  /** Read up to the matching `)`; the `(` is already consumed */
+  const readParenthesized = (): string => {
+    const end = text.indexOf(")", pos);
+    if (end === -1) fail("Expected \")\"");
+    const inner = text.slice(pos, end);
+    pos = end + 1;
+    return inner;
+  };
+
+  /** `A | B | ...N more`; literals of one type gather into one enum scalar */
+  const parseUnion = (): Shape => {
+    const variants: Shape[] = [];
+    const enums = new Map<string, ScalarShape>();
+
+    for (;;) {
+      skipWhitespace();
+      if (startsWith("...") && /^\.\.\.\d+ more/.test(text.slice(pos))) {
+        // Variants cut by a budget
+        pos += /^\.\.\.\d+ more/.exec(text.slice(pos))![0].length;
+      } else {
+        const term = parseTerm();
+        const count = readFrequency();
+        if (count !== undefined) setCount(term, count);
+        const isLiteral = term.kind === "scalar" && term.values?.length === 1 && term.count === undefined;
+        const group = isLiteral ? enums.get((term as ScalarShape).type) : undefined;
+        if (group) {
+          group.values!.push((term as ScalarShape).values![0]);
+        } else {
+          variants.push(term);
+          if (isLiteral) enums.set((term as ScalarShape).type, term as ScalarShape);
+        }
+      }
+      skipWhitespace();
+      if (!startsWith("|")) break;
+      pos++;
+    }
+
+    // A lone string literal is a tag; a closed set renders only once some value
+    // repeated, so the smallest count that says so is recorded
+    for (const group of enums.values()) {
+      const values = group.values!;
+      if (group.type === "string" && values.length === 1) {
+        group.literal = values[0] as string;
+        delete group.values;
+      } else {
+        group.count = values.length + 1;
+      }
+    }
+
+    if (variants.length === 1) return variants[0];
+    const shape: Shape = { kind: "varied", variants };
+    const discriminator = findDiscriminator(variants);
+    if (discriminator) shape.discriminator = discriminator;
+    return shape;
+  };
+
+  const parseTerm = (): Shape => {
+    skipWhitespace();
+    if (startsWith("(")) {
+      pos++;
+      const inner = parseUnion();
+      skipWhitespace();
+      expect(")");
+      return inner;
+    }
+    if (startsWith("{")) return parseObject();
+    if (startsWith("Map(")) return parseMap();
+    if (startsWith("<circular ")) {
+      pos += "<circular ".length;
+      const end = text.indexOf(">", pos);
+      if (end === -1) fail('Expected ">"');
+      const path = text.slice(pos, end);
+      pos = end + 1;
+      return { kind: "circular", path };
+    }
+    const definition = DEFINITION.exec(text.slice(pos));
+    if (definition) {
+      pos += definition[0].length;
+      scopes.push({ name: definition[1], referred: false });
+      const shape = parseTerm();
+      if (shape.kind === "object" && scopes.pop()!.referred) shape.recursive = true;
+      return shape;
+    }
+    const className = CLASS_NAME.exec(text.slice(pos))?.[1];
+    if (className && text[pos + className.length] === "(") return parseArray(className);
+    if (className) {
+      pos += className.length + 1;
+      return { ...parseObject(), className };
+    }
+    const reference = TYPE_NAME.exec(text.slice(pos))?.[0];
+    if (reference && reference !== "Date") {
+      const scope = scopes[scopes.length - 1];
+      if (scope?.name === reference) {
+        scope.referred = true;
+        pos += reference.length;
+        return { kind: "self" };
+      }
+      const start = definitions.get(reference);
+      if (start === undefined) fail(`Unknown type ${reference}`);
+      // Read the definition again, so every place gets shapes of its own
+      const end = pos + reference.length;
+      pos = start!;
+      const shape = parseTerm();
+      pos = end;
+      return shape;
+    }
+    if (startsWith('"')) return { kind: "scalar", type: "string", values: [readString()] };
+    if (startsWith("true") || startsWith("false")) {
+      const value = startsWith("true");
+      pos += value ? 4 : 5;
+      return { kind: "scalar", type: "boolean", values: [value] };
+    }
+    if (NUMBER.test(text.slice(pos))) return { kind: "scalar", type: "number", values: [readNumber()] };
+    return parseScalar();
+  };
+
+  /** `string`, `string<date>`, `integer(1..5)`, `string(len 2-4)`, each optionally with ` (examples)` */
+  const parseScalar = (): ScalarShape => {
+    const name = /^(string|number|integer|boolean|null|bigint|undefined|symbol|function|Date)/.exec(text.slice(pos))?.[1];
+    if (!name) return fail("Expected a type");
+    pos += name.length;
+    const shape: ScalarShape = { kind: "scalar", type: name === "integer" ? "number" : (name as ScalarShape["type"]) };
+
+    if (startsWith("<")) {
+      const end = text.indexOf(">", pos);
+      const format = text.slice(pos + 1, end) as StringFormat;
+      if (end === -1 || !FORMATS.includes(format)) fail("Unknown string format");
+      shape.format = format;
+      pos = end + 1;
+    } else if (startsWith("(") && !FREQUENCY.test(text.slice(pos))) {
+      pos++;
+      const stats = readParenthesized();
+      if (shape.type === "string") {
+        const range = COUNT_RANGE.exec(stats.replace(/^len /, ""));
+        if (!range || !stats.startsWith("len ")) fail("Bad string length range");
+        shape.minLength = Number(range![1]);
+        shape.maxLength = Number(range![2] ?? range![1]);
+      } else {
+        const range = NUMBER_RANGE.exec(stats);
+        const value = range ? undefined : Number(stats);
+        if (!range && Number.isNaN(value)) fail("Bad number range");
+        shape.integer = name === "integer";
+        shape.min = range ? Number(range[1]) : value;
+        shape.max = range ? Number(range[2]) : value;
+      }
+    } else if (name === "integer") {
+      fail("Expected a range after integer");
+    }
+
+    if (startsWith(" (")) {
+      pos += 2;
+      shape.examples = [];
+      for (;;) {
+        skipWhitespace();
+        if (startsWith("…")) {
+          pos++;
+          shape.moreExamples = true;
+        } else {
+          shape.examples.push(startsWith('"') ? readString() : readNumber());
+        }
+        if (startsWith(")")) break;
+        expect(",");
+      }
+      pos++;
+    }
+    return shape;
+  };
+
+  /**
+   * `Array(0)`, `Array(5) of T`, `Array(2-5) of ...`, `Lines(N) of T` for
+   * NDJSON records, and JavaScript collections: `Set(3) of T`, `Uint8Array(16) of number`
+   */
+  const parseArray = (name: string): Shape => {
+    pos += name.length + 1;
+    const { length, min, max } = parseCount();
+    const shape: Shape = { kind: "array", length, children: { kind: "scalar", type: "null" } };
+    if (name === "Lines") shape.lines = true;
+    else if (name !== "Array") shape.className = name;
+    if (min !== undefined) {
+      shape.minLength = min;
+      shape.maxLength = max;
+    }
+    if (length === 0 && min === undefined) return shape;
+
+    expect(" of ");
+    if (startsWith("...") && !/^\.\.\.\d/.test(text.slice(pos))) {
+      pos += 3; // cut at maxDepth
+      shape.children = cutElements(length, min, max);
+      return shape;
+    }
+    shape.children = parseUnion();
+    return shape;
+  };
+
+  /** `Map(0)`, `Map(40) of string ("a1", …) → T`; keys other than strings are a JavaScript Map's */
+  const parseMap = (): Shape => {
+    pos += "Map(".length;
+    const { length, min, max } = parseCount();
+    const keys: ScalarShape = { kind: "scalar", type: "string" };
+    const shape: Shape = { kind: "map", size: length, keys, values: { kind: "scalar", type: "null" } };
+    if (min !== undefined) {
+      shape.minSize = min;
+      shape.maxSize = max;
+    }
+    if (length === 0 && min === undefined) return shape;
+
+    expect(" of ");
+    shape.keys = parseUnion();
+    if (shape.keys.kind !== "scalar" || shape.keys.type !== "string") shape.className = "Map";
+    skipWhitespace();
+    expect("→ ");
+    if (startsWith("...") && !/^\.\.\.\d/.test(text.slice(pos))) {
+      pos += 3;
+      shape.values = cutElements(length, min, max);
+      return shape;
+    }
+    shape.values = parseUnion();
+    return shape;
+  };
+
+  /** The `...` of `Array(N) of ...`: as many elements as the collection's size, not looked into */
+  const cutElements = (size: number, min?: number, max?: number): TruncatedShape => {
+    const shape: TruncatedShape = { kind: "truncated", cut: "elements", size };
+    if (min !== undefined) {
+      shape.minSize = min;
+      shape.maxSize = max;
+    }
+    return shape;
+  };
+
+  /** The `(5)` or `(2-5)` after Array / Map */
+  const parseCount = (): { length: number; min?: number; max?: number } => {
+    const range = COUNT_RANGE.exec(readParenthesized());
+    if (!range) return fail("Bad length");
+    if (range[2] === undefined) return { length: Number(range[1]) };
+    return { length: -1, min: Number(range[1]), max: Number(range[2]) };
+  };
+
+  /** `{}`, `{...}`, `{...N keys}`, `{a: T, b?: T, ...N more keys}`, single-line or multiline */
+  const parseObject = (): ObjectShape | TruncatedShape => {
+    pos++;
+    const keys: Record<string, FieldShape> = {};
+    skipWhitespace();
+    if (startsWith("}")) {
+      pos++;
+      return { kind: "object", keys };
+    }
+
+    // Cut at maxDepth, or collapsed by a budget: the keys are unknown
+    const collapsed = /^\.\.\.(?:(\d+) keys?)?\}/.exec(text.slice(pos));
+    if (collapsed) {
+      pos += collapsed[0].length;
+      return { kind: "truncated", cut: "keys", size: collapsed[1] === undefined ? -1 : Number(collapsed[1]) };
+    }
+
+    for (;;) {
+      skipWhitespace();
+      const more = /^\.\.\.\d+ more keys?/.exec(text.slice(pos));
+      if (more) {
+        // Keys cut by a budget
+        pos += more[0].length;
+      } else {
+        const { key, optional, count } = parseKey();
+        keys[key] = { shape: parseUnion(), optional };
+        if (count !== undefined) keys[key].count = count;
+      }
+      skipWhitespace();
+      if (startsWith("}")) break;
+      expect(",");
+    }
+    pos++;
+
+    // Shares of optional keys are out of 100 objects, which the others are all in
+    const shape: ObjectShape = { kind: "object", keys };
+    if (Object.values(keys).some(field => field.count !== undefined)) {
+      for (const field of Object.values(keys)) field.count ??= 100;
+      shape.count = 100;
+    }
+    return shape;
+  };
+
+  /** `name: `, `name?: `, `name?(62%): `, or a quoted key `"content-type": ` */
+  const parseKey = (): { key: string; optional: boolean; count?: number } => {
+    let key: string;
+    if (startsWith('"')) {
+      key = readString();
+    } else {
+      const end = text.indexOf(": ", pos);
+      if (end === -1) fail("Expected a key");
+      key = text.slice(pos, end);
+      pos = end;
+      // Back up to the `?` and share that follow the key
+      const suffix = /\?(\((<1|>99|\d+)%\))?$/.exec(key);
+      if (suffix) {
+        key = key.slice(0, suffix.index);
+        pos -= suffix[0].length;
+      }
+    }
+    const optional = startsWith("?");
+    if (optional) pos++;
+    const count = optional ? readFrequency() : undefined;
+    expect(": ");
+    return { key, optional, count };
+  };
+
+  // Definitions come first, one per line, then the thumbnail referring to them
+  for (;;) {
+    skipWhitespace();
+    const start = pos;
+    const definition = DEFINITION.exec(text.slice(pos));
+    const shape = parseUnion();
+    skipWhitespace();
+    if (pos >= text.length) return shape;
+    if (!definition || (shape.kind !== "object" && shape.kind !== "truncated")) fail(`Unexpected ${JSON.stringify(text[pos])}`);
+    definitions.set(definition![1], start);
+  }
+}
+
+/**
+ * Give a shape parsed with a share of `count` percent that count. An object's
+ * keys were counted out of 100 of its own, so their counts scale along.
+ */
+function setCount(shape: Shape, count: number): void {
+  if (shape.kind === "varied") return;
+  if (shape.kind === "object" && shape.count !== undefined) {
+    for (const field of Object.values(shape.keys)) field.count = (field.count! * count) / shape.count;
+  }
+  shape.count = count;
+}
+
+/**
+ * The key that tells the object variants of a union apart: present in all
+ * of them as a tag (a string literal), with a different tag in each.
+ */
+function findDiscriminator(variants: Shape[]): string | undefined {
+  const objects = variants.filter((v): v is ObjectShape => v.kind === "object");
+  if (objects.length < 2) return undefined;
+
+  return Object.keys(objects[0].keys).find(key => {
+    const tags = objects.map(o => tagOf(o, key));
+    return tags.every(t => t !== undefined) && new Set(tags).size === tags.length;
+  });
+}
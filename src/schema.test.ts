@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { inferShape, toJSONSchema } from './index.js';
+
+const DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+describe('toJSONSchema', () => {
+  it('scalars → type, with $schema at the root', () => {
+    assert.deepEqual(toJSONSchema(inferShape('x')), { $schema: DRAFT, type: 'string' });
+    assert.deepEqual(toJSONSchema(inferShape(null)), { $schema: DRAFT, type: 'null' });
+  });
+
+  it('objects → properties, with required from non-optional keys', () => {
+    const shape = inferShape([{ id: 1, name: 'a' }, { id: 2 }]);
+    assert.deepEqual(toJSONSchema(shape), {
+      $schema: DRAFT,
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { id: { type: 'number' }, name: { type: 'string' } },
+        required: ['id'],
+      },
+    });
+  });
+
+  it('additionalProperties: false closes every object', () => {
+    const schema = toJSONSchema(inferShape({ a: { b: 1 }, e: {} }), { additionalProperties: false });
+    assert.equal(schema.additionalProperties, false);
+    assert.equal(schema.properties!.a.additionalProperties, false);
+    assert.equal(schema.properties!.e.additionalProperties, false);
+  });
+
+  it('additionalProperties closes tagged variants but not maps, and is left out by default', () => {
+    const value = {
+      events: [{ type: 'a', x: 1 }, { type: 'a', x: 2 }, { type: 'b', y: 's' }, { type: 'b', y: 't' }],
+      ids: { user_1: 1, user_2: 2, user_3: 3, user_4: 4, user_5: 5 },
+    };
+    const closed = toJSONSchema(inferShape(value), { additionalProperties: false });
+    for (const variant of closed.properties!.events.items!.anyOf!) {
+      assert.equal(variant.additionalProperties, false);
+    }
+    assert.deepEqual(closed.properties!.ids.additionalProperties, { type: 'number' });
+
+    const open = toJSONSchema(inferShape(value));
+    assert.equal(open.additionalProperties, undefined);
+    for (const variant of open.properties!.events.items!.anyOf!) {
+      assert.equal(variant.additionalProperties, undefined);
+    }
+    assert.deepEqual(open.properties!.ids.additionalProperties, { type: 'number' });
+  });
+
+  it('arrays → minItems/maxItems from a merged length range only', () => {
+    assert.deepEqual(toJSONSchema(inferShape([1, 2, 3])), { $schema: DRAFT, type: 'array', items: { type: 'number' } });
+    const nested = toJSONSchema(inferShape([[1], [2, 3, 4]]));
+    assert.deepEqual(nested.items, { type: 'array', minItems: 1, maxItems: 3, items: { type: 'number' } });
+    assert.deepEqual(toJSONSchema(inferShape([])), { $schema: DRAFT, type: 'array' });
+  });
+
+  it('unions → anyOf', () => {
+    assert.deepEqual(toJSONSchema(inferShape([1, 'a', null])).items, {
+      anyOf: [{ type: 'number' }, { type: 'string' }, { type: 'null' }],
+    });
+  });
+
+  it('tags of a tagged union → const', () => {
+    const events = [
+      { type: 'click', x: 1 },
+      { type: 'view', page: 'a' },
+      { type: 'click', x: 2 },
+    ];
+    const variants = toJSONSchema(inferShape(events)).items!.anyOf!;
+    assert.deepEqual(variants.map(v => v.properties!.type), [
+      { type: 'string', const: 'click' },
+      { type: 'string', const: 'view' },
+    ]);
+  });
+
+  it('string formats → format, or a pattern for numeric strings', () => {
+    assert.equal(toJSONSchema(inferShape('2024-01-01')).format, 'date');
+    assert.equal(toJSONSchema(inferShape('https://example.com')).format, 'uri');
+    assert.ok(new RegExp(toJSONSchema(inferShape('42.5')).pattern!).test('-3e5'));
+  });
+
+  it('stats, enums and examples → ranges, enum and examples', () => {
+    const data = [{ n: 1, s: 'ab', e: 'x' }, { n: 5, s: 'abcd', e: 'y' }, { n: 3, s: 'a', e: 'x' }];
+    const items = toJSONSchema(inferShape(data, { stats: true, enums: 3, examples: 2 })).items!;
+    // Every n is distinct, so no enum
+    assert.deepEqual(items.properties!.n, { type: 'integer', minimum: 1, maximum: 5, examples: [1, 5] });
+    assert.deepEqual(items.properties!.s, { type: 'string', minLength: 1, maxLength: 4, examples: ['ab', 'abcd'] });
+    assert.deepEqual(items.properties!.e, { type: 'string', enum: ['x', 'y'], minLength: 1, maxLength: 1, examples: ['x', 'y'] });
+  });
+
+  it('booleans → enum only when always the same value, as in the thumbnail', () => {
+    const data = [{ b: true, on: true }, { b: false, on: true }, { b: true, on: true }];
+    const items = toJSONSchema(inferShape(data, { enums: 3 })).items!;
+    assert.deepEqual(items.properties!.b, { type: 'boolean' });
+    assert.deepEqual(items.properties!.on, { type: 'boolean', enum: [true] });
+  });
+
+  it('maps → additionalProperties for values, propertyNames for formatted keys', () => {
+    const daily = { '2024-01-01': 1, '2024-01-02': 2, '2024-01-03': 3, '2024-01-04': 4, '2024-01-05': 5 };
+    assert.deepEqual(toJSONSchema(inferShape(daily)), {
+      $schema: DRAFT,
+      type: 'object',
+      propertyNames: { type: 'string', format: 'date' },
+      additionalProperties: { type: 'number' },
+    });
+  });
+
+  it('JavaScript values as toJSON commonly writes them; circular references accept anything', () => {
+    const node: Record<string, unknown> = { at: new Date(0), big: 1n };
+    node.self = node;
+    assert.deepEqual(toJSONSchema(inferShape(node, { jsTypes: true })).properties, {
+      at: { type: 'string', format: 'date-time' },
+      big: { type: 'integer' },
+      self: {},
+    });
+  });
+
+  it('recursive objects → $anchor, their nodes → $ref', () => {
+    const tree = { name: 'a', children: [{ name: 'b', children: [] }] };
+    assert.deepEqual(toJSONSchema(inferShape(tree)), {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $anchor: 'Node',
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        children: { type: 'array', minItems: 0, maxItems: 1, items: { $ref: '#Node' } },
+      },
+      required: ['name', 'children'],
+    });
+  });
+
+  it('containers collapsed at maxDepth keep only their type', () => {
+    const shape = inferShape({ a: { b: 1 }, l: [1] }, { maxDepth: 1 });
+    assert.deepEqual(toJSONSchema(shape, { maxDepth: 1, additionalProperties: false }).properties, {
+      a: { type: 'object' },
+      l: { type: 'array' },
+    });
+  });
+});
@@ -0,0 +1,207 @@
+// JSON Schema export — turn an inferred Shape into a draft 2020-12 schema.
+//
+//   toJSONSchema(inferShape([{id: 1}]))
+//   // → {$schema: "...", type: "array", items: {type: "object", ...}}
+
+import type { ArrayShape, MapShape, ObjectShape, ScalarShape, Shape, StringFormat } from "./index.js";
+import { DEFAULT_MAX_DEPTH, isEmptyArray, isEmptyMap, isEnumScalar } from "./shapes.js";
+
+// ─── Type Definitions ────────────────────────────────────────────────────────
+
+/** The subset of JSON Schema (draft 2020-12) that shapes translate to */
+export interface JSONSchema {
+  $schema?: string;
+  $anchor?: string;
+  $ref?: string;
+  type?: "string" | "number" | "integer" | "boolean" | "null" | "array" | "object";
+  format?: string;
+  pattern?: string;
+  const?: string;
+  enum?: Array<string | number | boolean>;
+  examples?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  propertyNames?: JSONSchema;
+  minProperties?: number;
+  maxProperties?: number;
+  anyOf?: JSONSchema[];
+}
+
+export interface JSONSchemaOptions {
+  /** Depth at which the shape was collapsed; containers there get only their type (default: 8) */
+  maxDepth?: number;
+  /**
+   * `false` closes every object whose keys were described, tagged-union variants
+   * included, rejecting keys never sampled. Maps keep `additionalProperties` for
+   * their values, and objects cut at maxDepth stay open (default: true)
+   */
+  additionalProperties?: boolean;
+}
+
+/** Resolved options, and the anchors of the recursive objects being converted (innermost last) */
+type Settings = Required<JSONSchemaOptions> & { anchors: string[]; anchorCount: number };
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DRAFT_2020_12 = "https://json-schema.org/draft/2020-12/schema";
+
+/** How each string format is expressed; formats JSON Schema lacks become patterns */
+const FORMAT_KEYWORDS: Record<StringFormat, Pick<JSONSchema, "format" | "pattern">> = {
+  "date-time": { format: "date-time" },
+  date: { format: "date" },
+  uuid: { format: "uuid" },
+  url: { format: "uri" },
+  email: { format: "email" },
+  numeric: { pattern: "^-?\\d+(\\.\\d+)?([eE][+-]?\\d+)?$" },
+};
+
+/**
+ * JavaScript values JSON has no type for (from the `jsTypes` option), as
+ * toJSON methods commonly write them; undefined, symbols and functions, which
+ * JSON leaves out, accept anything
+ */
+const NON_JSON_SCALARS: Record<"bigint" | "Date" | "undefined" | "symbol" | "function", JSONSchema> = {
+  bigint: { type: "integer" },
+  Date: { type: "string", format: "date-time" },
+  undefined: {},
+  symbol: {},
+  function: {},
+};
+
+// ─── Conversion ──────────────────────────────────────────────────────────────
+
+/**
+ * Convert a shape to a JSON Schema (draft 2020-12) document.
+ *
+ * - Scalars → `type` (`integer` when `stats` saw only integers), with
+ *   `format`, `const` for tags, `enum` for closed sets, value ranges and `examples`
+ * - Arrays → `items`, with `minItems`/`maxItems` from a merged length range
+ * - Objects → `properties`, with `required` listing the non-optional keys
+ * - Maps → `additionalProperties` for the values, `propertyNames` for the keys
+ * - Unions → `anyOf`
+ * - Circular references → `{}`, since JSON can't hold a cycle
+ * - Recursive objects → `$anchor` (`Node`, `Node2`, …), their nodes → `$ref: "#Node"`
+ *
+ * @param shape - Shape from `inferShape` / `inferShapeFromStream`
+ * @param options - maxDepth (default 8), additionalProperties (default true)
+ * @returns Schema document with `$schema` set
+ *
+ * @example
+ * ```ts
+ * toJSONSchema(inferShape({id: 1, tags: ["a"]}), { additionalProperties: false })
+ * // → {$schema: "https://json-schema.org/draft/2020-12/schema", type: "object",
+ * //    properties: {id: {type: "number"}, tags: {type: "array", items: {type: "string"}}},
+ * //    required: ["id", "tags"], additionalProperties: false}
+ * ```
+ */
+export function toJSONSchema(shape: Shape, options?: JSONSchemaOptions): JSONSchema {
+  const settings: Settings = {
+    maxDepth: options?.maxDepth ?? DEFAULT_MAX_DEPTH,
+    additionalProperties: options?.additionalProperties ?? true,
+    anchors: [],
+    anchorCount: 0,
+  };
+  return { $schema: DRAFT_2020_12, ...convert(shape, settings, 0) };
+}
+
+function convert(shape: Shape, settings: Settings, depth: number): JSONSchema {
+  switch (shape.kind) {
+    case "scalar":
+      return convertScalar(shape);
+    case "array":
+      return convertArray(shape, settings, depth);
+    case "object":
+      return convertObject(shape, settings, depth);
+    case "map":
+      return convertMap(shape, settings, depth);
+    case "varied":
+      return { anyOf: shape.variants.map(v => convert(v, settings, depth)) };
+    case "circular":
+      return {};
+    case "truncated":
+      // Cut at maxDepth: only the type is known
+      return shape.cut === "keys" ? { type: "object" } : {};
+    case "self": {
+      const anchor = settings.anchors[settings.anchors.length - 1];
+      return anchor ? { $ref: `#${anchor}` } : {};
+    }
+  }
+}
+
+function convertScalar(shape: ScalarShape): JSONSchema {
+  const { type } = shape;
+  if (type === "bigint" || type === "Date" || type === "undefined" || type === "symbol" || type === "function") {
+    return { ...NON_JSON_SCALARS[type] };
+  }
+  const schema: JSONSchema = { type: shape.integer ? "integer" : type };
+  if (shape.literal !== undefined) {
+    schema.const = shape.literal;
+    return schema;
+  }
+
+  if (shape.format) Object.assign(schema, FORMAT_KEYWORDS[shape.format]);
+  if (isEnumScalar(shape)) schema.enum = shape.values;
+  if (shape.min !== undefined) schema.minimum = shape.min;
+  if (shape.max !== undefined) schema.maximum = shape.max;
+  if (shape.minLength !== undefined) schema.minLength = shape.minLength;
+  if (shape.maxLength !== undefined) schema.maxLength = shape.maxLength;
+  if (shape.examples && shape.examples.length > 0) schema.examples = shape.examples;
+  return schema;
+}
+
+function convertArray(shape: ArrayShape, settings: Settings, depth: number): JSONSchema {
+  const schema: JSONSchema = { type: "array" };
+  // One array's own length says nothing about others; a merged range does
+  if (shape.minLength !== undefined && shape.maxLength !== undefined) {
+    schema.minItems = shape.minLength;
+    schema.maxItems = shape.maxLength;
+  }
+  if (!isEmptyArray(shape) && shape.children.kind !== "truncated" && depth < settings.maxDepth) {
+    schema.items = convert(shape.children, settings, depth + 1);
+  }
+  return schema;
+}
+
+function convertObject(shape: ObjectShape, settings: Settings, depth: number): JSONSchema {
+  const schema: JSONSchema = {};
+  if (shape.recursive) {
+    // Anchored so the nodes inside can refer back to it
+    schema.$anchor = settings.anchorCount++ === 0 ? "Node" : `Node${settings.anchorCount}`;
+    settings.anchors.push(schema.$anchor);
+  }
+  schema.type = "object";
+  const keys = Object.keys(shape.keys);
+  if (keys.length > 0) {
+    schema.properties = {};
+    for (const key of keys) {
+      schema.properties[key] = convert(shape.keys[key].shape, settings, depth + 1);
+    }
+    const required = keys.filter(k => !shape.keys[k].optional);
+    if (required.length > 0) schema.required = required;
+  }
+  if (shape.recursive) settings.anchors.pop();
+  if (!settings.additionalProperties) schema.additionalProperties = false;
+  return schema;
+}
+
+function convertMap(shape: MapShape, settings: Settings, depth: number): JSONSchema {
+  const schema: JSONSchema = { type: "object" };
+  if (shape.minSize !== undefined && shape.maxSize !== undefined) {
+    schema.minProperties = shape.minSize;
+    schema.maxProperties = shape.maxSize;
+  }
+  const format = shape.keys.kind === "scalar" ? shape.keys.format : undefined;
+  if (format) schema.propertyNames = { type: "string", ...FORMAT_KEYWORDS[format] };
+  if (!isEmptyMap(shape) && depth < settings.maxDepth) {
+    schema.additionalProperties = convert(shape.values, settings, depth + 1);
+  }
+  return schema;
+}
@@ -0,0 +1,41 @@
+// Shape helpers — what the core and the exporters (jq paths, JSON Schema,
+// TypeScript) need to agree on about a Shape.
+
+import type { ArrayShape, MapShape, ObjectShape, ScalarShape } from "./index.js";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Depth at which inference collapses containers, and exporters stop looking */
+export const DEFAULT_MAX_DEPTH = 8;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Is this array effectively empty? */
+export function isEmptyArray(shape: ArrayShape): boolean {
+  if (shape.minLength !== undefined && shape.maxLength !== undefined) {
+    return shape.maxLength === 0;
+  }
+  return shape.length === 0;
+}
+
+/** Is this map effectively empty? */
+export function isEmptyMap(shape: MapShape): boolean {
+  return (shape.maxSize ?? shape.size) === 0;
+}
+
+/** The tag value of a tagged-union variant */
+export function tagOf(shape: ObjectShape, discriminator: string): string | undefined {
+  const field = shape.keys[discriminator]?.shape;
+  return field?.kind === "scalar" ? field.literal : undefined;
+}
+
+/**
+ * Should this scalar render as a literal union? Only when its distinct values
+ * are known and some value repeated — a field seen once is no evidence of a
+ * closed set. For booleans, only when it's always the same value.
+ */
+export function isEnumScalar(shape: ScalarShape): boolean {
+  if (!shape.values || shape.count === undefined) return false;
+  if (shape.count <= shape.values.length) return false;
+  return shape.type !== "boolean" || shape.values.length === 1;
+}
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { createJsonTokenizer } from './tokenizer.js';
+
+/** Tokenize text in the given chunks and return the events as strings */
+function events(...chunks: string[]): string[] {
+  const out: string[] = [];
+  const tokenizer = createJsonTokenizer({
+    startObject: () => out.push('{'),
+    endObject: () => out.push('}'),
+    startArray: () => out.push('['),
+    endArray: () => out.push(']'),
+    key: name => out.push(`key ${JSON.stringify(name)}`),
+    value: value => out.push(`value ${JSON.stringify(value)}`),
+  });
+  for (const chunk of chunks) tokenizer.write(chunk);
+  tokenizer.end();
+  return out;
+}
+
+describe('createJsonTokenizer', () => {
+  it('reports events in document order', () => {
+    assert.deepEqual(events('{"a": [1, "x", true, false, null], "b": {}}'), [
+      '{',
+      'key "a"',
+      '[',
+      'value 1',
+      'value "x"',
+      'value true',
+      'value false',
+      'value null',
+      ']',
+      'key "b"',
+      '{',
+      '}',
+      '}',
+    ]);
+  });
+
+  it('reads tokens split across chunks', () => {
+    assert.deepEqual(events('[12', '.5e', '+2, "ab', 'c", tr', 'ue]'), [
+      '[',
+      'value 1250',
+      'value "abc"',
+      'value true',
+      ']',
+    ]);
+  });
+
+  it('decodes escapes, including ones split across chunks', () => {
+    assert.deepEqual(events('"a\\', 'n\\u00', 'e9\\"\\\\\\/"'), ['value "a\\né\\"\\\\/"']);
+  });
+
+  it('decodes surrogate pairs', () => {
+    assert.deepEqual(events('"\\ud83d\\ude00"'), [`value ${JSON.stringify('😀')}`]);
+  });
+
+  it('reads a bare top-level number terminated by end of input', () => {
+    assert.deepEqual(events('-0.5'), ['value -0.5']);
+  });
+
+  it('reports the position of syntax errors', () => {
+    assert.throws(() => events('{"a": 1,}'), /Unexpected '}' at position 8/);
+    assert.throws(() => events('[1 2]'), /Unexpected token "2" at position 3/);
+    assert.throws(() => events('[01]'), /Unexpected token "01" at position 1/);
+    assert.throws(() => events('{"a" 1}'), /Unexpected token "1" at position 5/);
+    assert.throws(() => events('"\\x"'), /Bad escape \\x at position 1/);
+    assert.throws(() => events('"a\nb"'), /Bad control character in string at position 2/);
+  });
+
+  it('rejects incomplete input', () => {
+    assert.throws(() => events('[1,'), /Unexpected end of JSON input/);
+    assert.throws(() => events('"abc'), /Unterminated string/);
+    assert.throws(() => events(''), /Unexpected end of JSON input/);
+  });
+
+  it('rejects trailing content after the top-level value', () => {
+    assert.throws(() => events('{} []'), /Unexpected '\[' at position 3/);
+  });
+});
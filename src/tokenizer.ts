@@ -0,0 +1,292 @@
+// Incremental JSON tokenizer — turns text chunks into parse events
+// without materializing the document. Used by inferShapeFromStream.
+//
+// The tokenizer validates the JSON grammar as it goes and throws a
+// SyntaxError (with the character offset) on the first problem.
+
+// ─── Type Definitions ────────────────────────────────────────────────────────
+
+/** Receives parse events in document order */
+export interface JsonHandler {
+  startObject(): void;
+  endObject(): void;
+  startArray(): void;
+  endArray(): void;
+  /** An object key; the key's value follows as the next event(s) */
+  key(name: string): void;
+  /** A string, number, boolean or null value */
+  value(value: string | number | boolean | null): void;
+}
+
+export interface JsonTokenizer {
+  /** Feed the next chunk of text. Tokens may span chunk boundaries. */
+  write(text: string): void;
+  /** Signal end of input. Throws if the document is incomplete. */
+  end(): void;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+// What the grammar allows next
+const EXPECT_VALUE = 0; // top level, after ':' or after ',' in an array
+const EXPECT_VALUE_OR_END = 1; // right after '['
+const EXPECT_KEY_OR_END = 2; // right after '{'
+const EXPECT_KEY = 3; // after ',' in an object
+const EXPECT_COLON = 4; // after a key
+const EXPECT_COMMA_OR_END = 5; // after a value inside a container
+const EXPECT_NOTHING = 6; // top-level value complete
+
+// What token is being read across chunk boundaries
+const TOKEN_NONE = 0;
+const TOKEN_STRING = 1;
+const TOKEN_BARE = 2; // number or literal (true/false/null)
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+// ─── Tokenizer ───────────────────────────────────────────────────────────────
+
+/** Characters that can appear in a number or literal token */
+function isBareChar(c: number): boolean {
+  return (
+    (c >= 48 && c <= 57) || // 0-9
+    (c >= 97 && c <= 122) || // a-z
+    (c >= 65 && c <= 90) || // A-Z
+    c === 43 || // +
+    c === 45 || // -
+    c === 46 // .
+  );
+}
+
+function isWhitespace(c: number): boolean {
+  return c === 32 || c === 10 || c === 13 || c === 9;
+}
+
+/**
+ * Create a push-style tokenizer that reports parse events to `handler`.
+ *
+ * @example
+ * ```ts
+ * const tokenizer = createJsonTokenizer(handler);
+ * tokenizer.write('{"a": [1, tr');
+ * tokenizer.write('ue]}');
+ * tokenizer.end();
+ * ```
+ */
+export function createJsonTokenizer(handler: JsonHandler): JsonTokenizer {
+  const stack: Array<"object" | "array"> = [];
+  let state = EXPECT_VALUE;
+  let token = TOKEN_NONE;
+  let buffer = "";
+  let stringIsKey = false;
+  let escaping = false;
+  let unicodeDigits: string | undefined;
+  let offset = 0; // characters consumed by previous chunks
+
+  const fail = (message: string, at: number): never => {
+    throw new SyntaxError(`${message} at position ${at}`);
+  };
+
+  const afterValue = (): void => {
+    state = stack.length === 0 ? EXPECT_NOTHING : EXPECT_COMMA_OR_END;
+  };
+
+  const expectValue = (what: string, at: number): void => {
+    if (state !== EXPECT_VALUE && state !== EXPECT_VALUE_OR_END) {
+      fail(`Unexpected ${what}`, at);
+    }
+  };
+
+  const finishString = (): void => {
+    token = TOKEN_NONE;
+    if (stringIsKey) {
+      handler.key(buffer);
+      state = EXPECT_COLON;
+    } else {
+      handler.value(buffer);
+      afterValue();
+    }
+    buffer = "";
+  };
+
+  const finishBare = (at: number): void => {
+    token = TOKEN_NONE;
+    const text = buffer;
+    buffer = "";
+    if (text === "true") handler.value(true);
+    else if (text === "false") handler.value(false);
+    else if (text === "null") handler.value(null);
+    else if (NUMBER_PATTERN.test(text)) handler.value(Number(text));
+    else fail(`Unexpected token ${JSON.stringify(text)}`, at - text.length);
+    afterValue();
+  };
+
+  /** Consume string content from `i`; returns the index after what was consumed */
+  const readString = (text: string, i: number): number => {
+    const n = text.length;
+    while (i < n) {
+      if (unicodeDigits !== undefined) {
+        const take = Math.min(4 - unicodeDigits.length, n - i);
+        unicodeDigits += text.slice(i, i + take);
+        i += take;
+        if (unicodeDigits.length < 4) return i;
+        if (!/^[0-9a-fA-F]{4}$/.test(unicodeDigits)) {
+          fail(`Bad unicode escape \\u${unicodeDigits}`, offset + i - 6);
+        }
+        buffer += String.fromCharCode(parseInt(unicodeDigits, 16));
+        unicodeDigits = undefined;
+        continue;
+      }
+
+      if (escaping) {
+        const ch = text[i];
+        escaping = false;
+        if (ch === "u") {
+          unicodeDigits = "";
+        } else if (ch in ESCAPES) {
+          buffer += ESCAPES[ch];
+        } else {
+          fail(`Bad escape \\${ch}`, offset + i - 1);
+        }
+        i++;
+        continue;
+      }
+
+      // Copy the run of plain characters up to the next quote or backslash
+      let j = i;
+      let c = 0;
+      for (; j < n; j++) {
+        c = text.charCodeAt(j);
+        if (c === 34 || c === 92) break;
+        if (c < 0x20) fail("Bad control character in string", offset + j);
+      }
+      buffer += text.slice(i, j);
+      if (j === n) return n;
+
+      if (c === 34) {
+        finishString();
+        return j + 1;
+      }
+      escaping = true;
+      i = j + 1;
+    }
+    return i;
+  };
+
+  const write = (text: string): void => {
+    const n = text.length;
+    let i = 0;
+
+    while (i < n) {
+      if (token === TOKEN_STRING) {
+        i = readString(text, i);
+        continue;
+      }
+
+      if (token === TOKEN_BARE) {
+        let j = i;
+        while (j < n && isBareChar(text.charCodeAt(j))) j++;
+        buffer += text.slice(i, j);
+        i = j;
+        // A delimiter ends the token; it is handled by the next iteration
+        if (j < n) finishBare(offset + j);
+        continue;
+      }
+
+      const c = text.charCodeAt(i);
+      const at = offset + i;
+
+      if (isWhitespace(c)) {
+        i++;
+        continue;
+      }
+
+      switch (c) {
+        case 123: // {
+          expectValue("'{'", at);
+          stack.push("object");
+          state = EXPECT_KEY_OR_END;
+          handler.startObject();
+          break;
+
+        case 91: // [
+          expectValue("'['", at);
+          stack.push("array");
+          state = EXPECT_VALUE_OR_END;
+          handler.startArray();
+          break;
+
+        case 125: // }
+          if (
+            state !== EXPECT_KEY_OR_END &&
+            !(state === EXPECT_COMMA_OR_END && stack[stack.length - 1] === "object")
+          ) {
+            fail("Unexpected '}'", at);
+          }
+          stack.pop();
+          handler.endObject();
+          afterValue();
+          break;
+
+        case 93: // ]
+          if (
+            state !== EXPECT_VALUE_OR_END &&
+            !(state === EXPECT_COMMA_OR_END && stack[stack.length - 1] === "array")
+          ) {
+            fail("Unexpected ']'", at);
+          }
+          stack.pop();
+          handler.endArray();
+          afterValue();
+          break;
+
+        case 44: // ,
+          if (state !== EXPECT_COMMA_OR_END) fail("Unexpected ','", at);
+          state = stack[stack.length - 1] === "object" ? EXPECT_KEY : EXPECT_VALUE;
+          break;
+
+        case 58: // :
+          if (state !== EXPECT_COLON) fail("Unexpected ':'", at);
+          state = EXPECT_VALUE;
+          break;
+
+        case 34: // "
+          if (state === EXPECT_KEY_OR_END || state === EXPECT_KEY) {
+            stringIsKey = true;
+          } else {
+            expectValue("string", at);
+            stringIsKey = false;
+          }
+          token = TOKEN_STRING;
+          break;
+
+        default:
+          if (!isBareChar(c)) fail(`Unexpected character ${JSON.stringify(text[i])}`, at);
+          expectValue(`token ${JSON.stringify(text[i])}`, at);
+          token = TOKEN_BARE;
+          continue; // the bare-token branch consumes it
+      }
+      i++;
+    }
+
+    offset += n;
+  };
+
+  const end = (): void => {
+    if (token === TOKEN_BARE) finishBare(offset);
+    if (token === TOKEN_STRING) fail("Unterminated string", offset);
+    if (state !== EXPECT_NOTHING) fail("Unexpected end of JSON input", offset);
+  };
+
+  return { write, end };
+}